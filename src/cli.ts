@@ -0,0 +1,690 @@
+#!/usr/bin/env node
+
+import chalk from "chalk"
+import { resolve } from "path"
+import { parseArgs } from "util"
+import { COLOR_FORMATS } from "./colors.js"
+import { loadConfig } from "./config.js"
+import { runAudit } from "./commands/audit.js"
+import { runCheck } from "./commands/check.js"
+import { runDiff } from "./commands/diff.js"
+import { runList } from "./commands/list.js"
+import { runToPlugin } from "./commands/to-plugin.js"
+import { runWatch } from "./commands/watch.js"
+import { extractThemes } from "./extract.js"
+import { formatOverride, parseOverride } from "./overrides.js"
+import type {
+  ColorFormat,
+  ContrastThresholds,
+  ExtractOptions,
+  ExtractorConfig,
+  ExtractResult,
+  OutputFormat,
+  OutputTarget,
+  ThemeError,
+  ThemeOverride,
+  WriterOptions,
+} from "./types.js"
+import { getErrorMessage, getRelativePath, writeOutputFile } from "./utils.js"
+import { OUTPUT_FORMATS, renderThemes } from "./writers/index.js"
+import { isOutputTemplate, renderSplitThemes } from "./writers/split.js"
+
+interface OutputFile {
+  /** Target name from the config's `outputs` */
+  name?: string
+  output: string
+  format: OutputFormat
+  writerOptions: WriterOptions
+  includeMetadata: boolean
+}
+
+interface ParsedArguments {
+  themes: string[]
+  outputs: OutputFile[]
+  readCss: boolean
+  cssPaths: string[]
+  colorFormat: ColorFormat
+  alphaFormat: "hex8" | "rgba"
+  gamutMap: boolean
+  deriveColors: boolean
+  overrides: ThemeOverride[]
+  list: boolean
+  watch: boolean
+  check: boolean
+  audit: boolean
+  thresholds: ContrastThresholds
+  /** Config file or package.json the options were merged with */
+  configPath?: string
+}
+
+/**
+ * Parse command line arguments and merge them with the config file, if any.
+ * Flags take precedence over config values.
+ */
+const parseArguments = async (): Promise<ParsedArguments> => {
+  try {
+    const options = {
+      themes: {
+        type: "string" as const,
+        short: "t",
+      },
+      output: {
+        type: "string" as const,
+        short: "o",
+      },
+      format: {
+        type: "string" as const,
+        short: "f",
+      },
+      "default-theme": {
+        type: "string" as const,
+      },
+      "prefers-dark": {
+        type: "string" as const,
+      },
+      "read-css": {
+        type: "boolean" as const,
+      },
+      "css-path": {
+        type: "string" as const,
+        multiple: true as const,
+      },
+      "color-format": {
+        type: "string" as const,
+      },
+      "alpha-format": {
+        type: "string" as const,
+      },
+      "gamut-map": {
+        type: "boolean" as const,
+      },
+      metadata: {
+        type: "boolean" as const,
+      },
+      set: {
+        type: "string" as const,
+        multiple: true as const,
+      },
+      config: {
+        type: "string" as const,
+        short: "c",
+      },
+      list: {
+        type: "boolean" as const,
+        short: "l",
+        default: false,
+      },
+      watch: {
+        type: "boolean" as const,
+        short: "w",
+        default: false,
+      },
+      check: {
+        type: "boolean" as const,
+        default: false,
+      },
+      audit: {
+        type: "boolean" as const,
+        default: false,
+      },
+      "min-contrast": {
+        type: "string" as const,
+      },
+      "min-apca": {
+        type: "string" as const,
+      },
+      help: {
+        type: "boolean" as const,
+        short: "h",
+        default: false,
+      },
+    }
+
+    const { values, positionals } = parseArgs({
+      args: process.argv.slice(2),
+      options,
+      allowPositionals: true,
+    })
+
+    if (values.help) {
+      console.log(`
+DaisyUI Theme Extractor
+
+Usage: extract-daisyui-themes [options]
+       extract-daisyui-themes to-plugin <themes.json> [options]
+       extract-daisyui-themes diff <before.json> [after.json] [options]
+
+Options:
+  -t, --themes <themes>   Comma-separated list of theme names (required if not using --read-css)
+  -o, --output <path>     Output file path (default: ./themes.json); a path with
+                          {name} writes one file per theme plus an index file
+  -f, --format <format>   Output format: ${OUTPUT_FORMATS.join(", ")} (default: json)
+  --default-theme <name>  css: also apply this theme to :root
+  --prefers-dark <name>   css: apply this theme to :root for prefers-color-scheme: dark
+  --metadata              Include theme metadata (default, prefersdark, color-scheme,
+                          source) in the output (default: false)
+  --read-css              Read themes from CSS file (default: false)
+  --css-path <path>       Path or glob pattern of a CSS file, repeatable
+                          (default: src/index.css)
+  --color-format <format> Output color format: hex, hex8, rgb, rgba, hsl, oklch,
+                          channels (default: hex)
+  --alpha-format <format> Output for translucent hex colors: hex8, rgba (default: hex8)
+  --gamut-map             Map out-of-sRGB colors by reducing OKLCH chroma instead
+                          of clipping (default: false)
+  --set <theme.key=value> Override a property of the extracted theme, or of every
+                          theme with *.key=value; repeatable
+  -l, --list              List the themes in the installed daisyui package
+  -w, --watch             Re-extract when the CSS files or the daisyui package
+                          change, rewriting the output only if it changed
+  --check                 Compare with the existing output file instead of
+                          writing it; exit with code 1 if it is stale
+  --audit                 Print the WCAG 2.x and APCA contrast of each color/content
+                          pair (primary/primary-content, ...) instead of writing
+  --min-contrast <ratio>  --audit: exit with code 1 below this WCAG ratio, e.g. 4.5
+  --min-apca <Lc>         --audit: exit with code 1 below this absolute APCA Lc, e.g. 60
+  -c, --config <path>     Config file (default: daisyui-theme-extractor.config.{json,js,mjs,ts}
+                          or the "daisyui-theme-extractor" key of package.json)
+  -h, --help             Show this help message
+
+Extracts DaisyUI themes and converts OKLCH colors to hex (or --color-format).
+Property names are cleaned (removes -- and color- prefixes).
+Flags override the config file; -o replaces its outputs with a single file.
+
+Examples:
+  extract-daisyui-themes --list
+  extract-daisyui-themes -t forest,dark,light -o ./output/themes.json
+  extract-daisyui-themes --themes="cupcake,bumblebee" --output="./themes.json"
+  extract-daisyui-themes --read-css --css-path="./src/styles.css"
+  extract-daisyui-themes --read-css --css-path="apps/*/src/index.css" --css-path=src/index.css
+  extract-daisyui-themes --read-css -t additional,themes
+  extract-daisyui-themes --read-css --watch
+  extract-daisyui-themes --read-css --check
+  extract-daisyui-themes --read-css --audit --min-contrast 4.5 --min-apca 60
+  extract-daisyui-themes -t forest --color-format channels
+  extract-daisyui-themes -t forest --set forest.primary=#ff0066 --set "*.radius-box=0"
+  extract-daisyui-themes --read-css -o "./themes/{name}.json"
+  extract-daisyui-themes -t light,dark -f css -o themes.css --default-theme light --prefers-dark dark
+      `)
+      process.exit(0)
+    }
+
+    const loaded = await loadConfig(values.config as string | undefined)
+    const config: ExtractorConfig = loaded?.config ?? {}
+
+    const readCss =
+      (values["read-css"] as boolean | undefined) ?? config.readCss ?? false
+    const cssPaths = (values["css-path"] as string[] | undefined) ??
+      (config.cssPath !== undefined ? [config.cssPath].flat() : undefined) ?? [
+        "src/index.css",
+      ]
+
+    const format = values.format as OutputFormat | undefined
+    if (format !== undefined && !OUTPUT_FORMATS.includes(format)) {
+      throw new Error(
+        `Invalid --format '${format}' (expected ${OUTPUT_FORMATS.join(", ")})`
+      )
+    }
+
+    const colorFormat =
+      (values["color-format"] as ColorFormat | undefined) ??
+      config.colorFormat ??
+      "hex"
+    if (!COLOR_FORMATS.includes(colorFormat)) {
+      throw new Error(
+        `Invalid --color-format '${colorFormat}' (expected ${COLOR_FORMATS.join(
+          ", "
+        )})`
+      )
+    }
+
+    const parseThreshold = (name: string): number | undefined => {
+      const value = values[name as keyof typeof values] as string | undefined
+      if (value === undefined) {
+        return undefined
+      }
+      const threshold = Number(value)
+      if (!Number.isFinite(threshold) || threshold <= 0) {
+        throw new Error(
+          `Invalid --${name} '${value}' (expected a positive number)`
+        )
+      }
+      return threshold
+    }
+    const thresholds: ContrastThresholds = {
+      wcag: parseThreshold("min-contrast") ?? config.minContrast,
+      apca: parseThreshold("min-apca") ?? config.minApca,
+    }
+
+    const alphaFormat =
+      (values["alpha-format"] as string | undefined) ??
+      config.alphaFormat ??
+      "hex8"
+    if (alphaFormat !== "hex8" && alphaFormat !== "rgba") {
+      throw new Error(
+        `Invalid --alpha-format '${alphaFormat}' (expected hex8 or rgba)`
+      )
+    }
+
+    const overrides = ((values.set as string[] | undefined) ?? []).map(
+      parseOverride
+    )
+
+    // Use themes from flag or first positional argument
+    const themesInput: string =
+      (values.themes as string) || positionals[0] || ""
+    const themeFlags: string[] = themesInput
+      .split(",")
+      .map((t: string) => t.trim())
+      .filter((t: string) => t.length > 0)
+    const themes = themeFlags.length > 0 ? themeFlags : (config.themes ?? [])
+
+    // Top-level config output options are defaults for the named outputs
+    const {
+      outputs: namedTargets = {},
+      output: configOutput,
+      ...targetDefaults
+    } = config
+    const output = values.output as string | undefined
+    const targets: [string | undefined, OutputTarget][] =
+      output !== undefined || Object.keys(namedTargets).length === 0
+        ? [
+            [
+              undefined,
+              {
+                ...targetDefaults,
+                output: output ?? configOutput ?? "./themes.json",
+              },
+            ],
+          ]
+        : Object.entries(namedTargets).map(([name, target]) => [
+            name,
+            { ...targetDefaults, ...target },
+          ])
+
+    const list = values.list as boolean
+
+    if (values.check && values.watch) {
+      throw new Error("--check can't be combined with --watch")
+    }
+    if (values.audit && (values.check || values.watch)) {
+      throw new Error("--audit can't be combined with --check or --watch")
+    }
+
+    if (!list && !readCss && themes.length === 0) {
+      console.error(
+        chalk.red("Error: No themes specified and --read-css not enabled.")
+      )
+      console.error(
+        chalk.yellow("Use -t or --themes flag, or enable --read-css.")
+      )
+      console.error(chalk.dim("Run with --help for usage information."))
+      process.exit(1)
+    }
+
+    return {
+      themes,
+      outputs: targets.map(([name, target]): OutputFile => ({
+        ...(name && { name }),
+        output: resolve(target.output),
+        format: format ?? target.format ?? "json",
+        writerOptions: {
+          defaultTheme:
+            (values["default-theme"] as string | undefined) ??
+            target.defaultTheme,
+          prefersDarkTheme:
+            (values["prefers-dark"] as string | undefined) ??
+            target.prefersDark,
+        },
+        includeMetadata:
+          (values.metadata as boolean | undefined) ?? target.metadata ?? false,
+      })),
+      readCss,
+      cssPaths,
+      colorFormat,
+      alphaFormat,
+      gamutMap:
+        (values["gamut-map"] as boolean | undefined) ??
+        config.gamutMap ??
+        false,
+      deriveColors: config.deriveColors ?? true,
+      overrides,
+      list,
+      watch: values.watch as boolean,
+      check: values.check as boolean,
+      audit: values.audit as boolean,
+      thresholds,
+      configPath: loaded?.path,
+    }
+  } catch (error: unknown) {
+    console.error(chalk.red("Error parsing arguments:"), getErrorMessage(error))
+    process.exit(1)
+  }
+}
+
+/**
+ * Main function
+ */
+const main = async (): Promise<void> => {
+  const {
+    themes,
+    outputs,
+    readCss,
+    cssPaths,
+    colorFormat,
+    alphaFormat,
+    gamutMap,
+    deriveColors,
+    overrides,
+    list,
+    watch,
+    check,
+    audit,
+    thresholds,
+    configPath,
+  }: ParsedArguments = await parseArguments()
+
+  if (list) {
+    await runList()
+    return
+  }
+
+  if (configPath) {
+    console.log(
+      chalk.cyan(`⚙️  Using config: ${chalk.bold(getRelativePath(configPath))}`)
+    )
+  }
+
+  if (readCss) {
+    console.log(
+      chalk.cyan(
+        `📄 Reading CSS file${cssPaths.length > 1 ? "s" : ""}: ${chalk.bold(
+          cssPaths.join(", ")
+        )}`
+      )
+    )
+  }
+
+  const extractOptions: ExtractOptions = {
+    themes,
+    cssPath: readCss ? cssPaths : undefined,
+    colorFormat,
+    alphaFormat,
+    gamutMap,
+    deriveColors,
+    overrides,
+  }
+  // Output file contents keyed by path; templates give one file per theme
+  const render =
+    ({ output, format, writerOptions, includeMetadata }: OutputFile) =>
+    (result: ExtractResult): Record<string, string> => {
+      const options: WriterOptions = {
+        ...writerOptions,
+        ...(includeMetadata && { metadata: result.metadata }),
+      }
+      return isOutputTemplate(output)
+        ? renderSplitThemes(result.themes, output, format, options)
+        : { [output]: renderThemes(result.themes, format, options) }
+    }
+
+  let extracted: ExtractResult
+  try {
+    extracted = await extractThemes(extractOptions)
+  } catch (error: unknown) {
+    console.error(
+      chalk.red(`Error reading CSS file: ${getErrorMessage(error)}`)
+    )
+    process.exit(1)
+  }
+
+  const {
+    themes: result,
+    errors,
+    outOfGamut,
+    derived,
+    cssThemeNames,
+    inlineThemeNames,
+    cssFiles,
+    themeFiles,
+    conflicts,
+    unmatchedOverrides,
+  } = extracted
+
+  if (readCss) {
+    if (cssFiles.length > 1) {
+      console.log(
+        chalk.blue(
+          `   Read ${chalk.bold(cssFiles.length)} CSS file(s): ${chalk.magenta(
+            cssFiles.map(getRelativePath).join(", ")
+          )}`
+        )
+      )
+    }
+
+    if (cssThemeNames.length > 0) {
+      console.log(
+        chalk.blue(
+          `   Found ${chalk.bold(
+            cssThemeNames.length
+          )} theme name(s): ${chalk.magenta(cssThemeNames.join(", "))}`
+        )
+      )
+    }
+
+    if (inlineThemeNames.length > 0) {
+      console.log(
+        chalk.blue(
+          `   Found ${chalk.bold(
+            inlineThemeNames.length
+          )} inline theme(s): ${chalk.magenta(inlineThemeNames.join(", "))}`
+        )
+      )
+    }
+
+    conflicts.forEach(({ theme, files }): void => {
+      console.log(
+        chalk.yellow(
+          `   ⚠️  Inline theme '${chalk.bold(
+            theme
+          )}' is defined differently in ${files
+            .map(getRelativePath)
+            .join(", ")} (using ${getRelativePath(files[0])})`
+        )
+      )
+    })
+
+    console.log("")
+  }
+
+  const allThemes: string[] = [
+    ...Object.keys(result),
+    ...errors.map(({ theme }: ThemeError): string => theme),
+  ]
+
+  console.log(
+    chalk.cyan(
+      `🎨 Extracting ${chalk.bold(allThemes.length)} theme(s): ${chalk.magenta(
+        allThemes.join(", ")
+      )}`
+    )
+  )
+  // Nothing is written in audit mode
+  if (!audit) {
+    outputs.forEach(({ name, output }): void => {
+      console.log(
+        chalk.cyan(
+          `📦 Output file: ${chalk.bold(getRelativePath(output))}${
+            name ? chalk.dim(` (${name})`) : ""
+          }`
+        )
+      )
+    })
+  }
+  console.log("")
+
+  for (const theme of Object.keys(result)) {
+    // Only name the file when themes come from more than one
+    const file =
+      cssFiles.length > 1 && themeFiles[theme]
+        ? chalk.dim(` (${getRelativePath(themeFiles[theme])})`)
+        : ""
+    if (inlineThemeNames.includes(theme)) {
+      const base = extracted.metadata[theme]?.extends
+      console.log(
+        chalk.green(`✓ Using inline CSS theme: ${chalk.bold(theme)}`) +
+          (base ? chalk.green(` (extends ${base})`) : "") +
+          file
+      )
+    } else {
+      console.log(chalk.green(`✓ Extracted theme: ${chalk.bold(theme)}`) + file)
+    }
+  }
+  errors.forEach(({ theme, error }: ThemeError): void => {
+    console.error(
+      chalk.red(`✗ Skipping theme '${chalk.bold(theme)}': ${error}`)
+    )
+  })
+  if (overrides.length > unmatchedOverrides.length) {
+    console.log(
+      chalk.green(
+        `✓ Applied ${chalk.bold(
+          overrides.length - unmatchedOverrides.length
+        )} override(s)`
+      )
+    )
+  }
+  unmatchedOverrides.forEach((override): void => {
+    console.log(
+      chalk.yellow(
+        `⚠️  --set ${chalk.bold(
+          formatOverride(override)
+        )} matched no theme property`
+      )
+    )
+  })
+
+  if (audit) {
+    console.log("")
+    if (!runAudit({ themes: result, thresholds })) {
+      process.exit(1)
+    }
+    return
+  }
+
+  if (check) {
+    console.log("")
+    const stale = outputs.flatMap((outputFile) =>
+      Object.entries(render(outputFile)(extracted)).filter(
+        ([output, content]) =>
+          !runCheck({ output, content, format: outputFile.format })
+      )
+    )
+    if (stale.length > 0) {
+      process.exit(1)
+    }
+    return
+  }
+
+  // Write results to file
+  try {
+    outputs.forEach((outputFile): void => {
+      const files = Object.entries(render(outputFile)(extracted))
+      files.forEach(([output, content]) => writeOutputFile(output, content))
+      if (files.length > 1) {
+        console.log(
+          chalk.dim(
+            `   ${getRelativePath(outputFile.output)}: wrote ${
+              files.length
+            } files`
+          )
+        )
+      }
+    })
+    console.log("")
+    console.log(
+      chalk.green.bold(
+        `✨ Successfully wrote ${chalk.yellow(
+          Object.keys(result).length
+        )} theme(s) to ${chalk.cyan(
+          outputs.map(({ output }) => getRelativePath(output)).join(", ")
+        )}`
+      )
+    )
+
+    // Show theme statistics
+    if (Object.keys(result).length > 0) {
+      console.log("")
+      console.log(chalk.cyan.bold("📊 Theme Statistics:"))
+      Object.entries(result).forEach(([name, styles]) => {
+        const propCount = Object.keys(styles).length
+        console.log(
+          chalk.dim(
+            `   ${chalk.magenta(name)}: ${chalk.yellow(propCount)} properties`
+          )
+        )
+        if (derived[name]) {
+          console.log(
+            chalk.dim(
+              `      ${chalk.yellow(
+                derived[name].length
+              )} derived: ${derived[name].join(", ")}`
+            )
+          )
+        }
+        if (outOfGamut[name]) {
+          console.log(
+            chalk.dim(
+              `      ${chalk.yellow(outOfGamut[name].length)} out of sRGB gamut${
+                gamutMap ? " (mapped)" : " (clipped)"
+              }: ${outOfGamut[name].join(", ")}`
+            )
+          )
+        }
+      })
+    }
+
+    if (errors.length > 0) {
+      console.log("")
+      console.log(
+        chalk.yellow.bold(`⚠️  Errors encountered (${errors.length}):`)
+      )
+      errors.forEach(({ theme, error }: ThemeError): void => {
+        console.log(chalk.red(`  • ${chalk.bold(theme)}: ${chalk.dim(error)}`))
+      })
+    }
+  } catch (error: unknown) {
+    console.error(
+      chalk.red("Error writing output file:"),
+      getErrorMessage(error)
+    )
+    process.exit(1)
+  }
+
+  if (watch) {
+    await runWatch({
+      extractOptions,
+      render: (result) =>
+        Object.assign(
+          {},
+          ...outputs.map((outputFile) => render(outputFile)(result))
+        ),
+      initial: extracted,
+    })
+  }
+}
+
+// Subcommands, selected by the first argument
+const commands: Record<string, (args: string[]) => Promise<void>> = {
+  "to-plugin": runToPlugin,
+  diff: runDiff,
+}
+
+// Run the CLI
+const command = process.argv[2]
+const run = Object.hasOwn(commands, command)
+  ? commands[command](process.argv.slice(3))
+  : main()
+
+run.catch((error: unknown): void => {
+  console.error(chalk.red.bold("Unexpected error:"), getErrorMessage(error))
+  process.exit(1)
+})
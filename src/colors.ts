@@ -0,0 +1,371 @@
+import {
+  clampRgb,
+  converter,
+  formatCss,
+  formatHex,
+  formatHex8,
+  formatHsl,
+  formatRgb,
+  parse,
+  toGamut,
+} from "culori"
+import type { Color } from "culori"
+import type {
+  BaseStyles,
+  ColorChannels,
+  ColorFormat,
+  ConvertOptions,
+} from "./types.js"
+
+/**
+ * Output formats accepted by `convertColor`
+ */
+export const COLOR_FORMATS: readonly ColorFormat[] = [
+  "hex",
+  "hex8",
+  "rgb",
+  "rgba",
+  "hsl",
+  "oklch",
+  "channels",
+]
+
+/**
+ * Color variables defined by daisyUI themes (cleaned names)
+ */
+export const DAISYUI_COLOR_NAMES: readonly string[] = [
+  "base-100",
+  "base-200",
+  "base-300",
+  "base-content",
+  "primary",
+  "primary-content",
+  "secondary",
+  "secondary-content",
+  "accent",
+  "accent-content",
+  "neutral",
+  "neutral-content",
+  "info",
+  "info-content",
+  "success",
+  "success-content",
+  "warning",
+  "warning-content",
+  "error",
+  "error-content",
+]
+
+const toRgb = converter("rgb")
+const toOklch = converter("oklch")
+const toSrgbGamut = toGamut("rgb", "oklch")
+
+// Tolerance for sRGB channels that land just outside 0-1 through rounding
+const GAMUT_EPSILON = 1e-4
+
+// CSS color functions culori can parse (rgb(), oklch(), color(), ...)
+const COLOR_FUNCTION_REGEX =
+  /(?:^|[^\w-])(?:rgba?|hsla?|hwb|lab|lch|oklab|oklch|color)\(/
+const HEX_COLOR_REGEX = /^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i
+
+/**
+ * Check whether a color lies inside the sRGB gamut
+ */
+export const isInGamut = (color: Color): boolean => {
+  const { r, g, b } = toRgb(color)
+  return [r, g, b].every(
+    (channel: number): boolean =>
+      channel >= -GAMUT_EPSILON && channel <= 1 + GAMUT_EPSILON
+  )
+}
+
+/**
+ * Map a color into sRGB by reducing its OKLCH chroma (CSS Color 4 gamut
+ * mapping) instead of clipping each channel
+ */
+const mapToGamut = (color: Color): Color => {
+  return isInGamut(color) ? color : toSrgbGamut(color)
+}
+
+/**
+ * Convert any color format to Hex using culori
+ *
+ * Colors with alpha below 1 are written as 8-digit hex, or as `rgba()` when
+ * `alphaFormat` is "rgba".
+ */
+export const convertToHex = (
+  colorString: string,
+  options: ConvertOptions = {}
+): string => {
+  try {
+    const parsed = parse(colorString)
+    const color = parsed && options.gamutMap ? mapToGamut(parsed) : parsed
+    if (color && color.alpha !== undefined && color.alpha < 1) {
+      return options.alphaFormat === "rgba"
+        ? formatRgb(color)
+        : formatHex8(color)
+    }
+
+    const hex = formatHex(color && options.gamutMap ? color : colorString)
+    return hex || colorString
+  } catch {
+    return colorString
+  }
+}
+
+/**
+ * Round to at most `digits` decimals
+ */
+const round = (value: number, digits: number = 3): number => {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
+
+/**
+ * Convert a color to numeric sRGB channels (0-255, alpha 0-1)
+ */
+const toChannels = (color: Color): ColorChannels => {
+  const { r, g, b, alpha = 1 } = clampRgb(toRgb(color))
+  return {
+    r: Math.round(r * 255),
+    g: Math.round(g * 255),
+    b: Math.round(b * 255),
+    a: round(alpha),
+  }
+}
+
+/**
+ * Convert any color to the requested output format
+ *
+ * Returns the original string when the color cannot be parsed.
+ */
+export const convertColor = (
+  colorString: string,
+  options: ConvertOptions = {}
+): string | ColorChannels => {
+  const { colorFormat = "hex" } = options
+
+  if (colorFormat === "hex") {
+    return convertToHex(colorString, options)
+  }
+
+  try {
+    const parsed = parse(colorString)
+    if (!parsed) {
+      return colorString
+    }
+    const color = options.gamutMap ? mapToGamut(parsed) : parsed
+
+    switch (colorFormat) {
+      case "hex8":
+        return formatHex8(color)
+      case "rgb":
+        return formatRgb(color)
+      case "rgba": {
+        const { r, g, b, a } = toChannels(color)
+        return `rgba(${r}, ${g}, ${b}, ${a})`
+      }
+      case "hsl":
+        // Clipped like the other sRGB formats; formatHsl doesn't clamp
+        return formatHsl(clampRgb(toRgb(color)))
+      case "oklch": {
+        const { l, c, h, alpha } = toOklch(color)
+        return formatCss({
+          mode: "oklch",
+          l: round(l),
+          c: round(c),
+          h: h === undefined ? undefined : round(h),
+          alpha: alpha === undefined ? undefined : round(alpha),
+        })
+      }
+      case "channels":
+        return toChannels(color)
+    }
+  } catch {
+    return colorString
+  }
+}
+
+/**
+ * Check whether a style value is a color that should be converted
+ *
+ * Hex literals are left as written for the default hex output.
+ */
+const isConvertibleColor = (
+  value: string,
+  colorFormat: ColorFormat
+): boolean => {
+  if (COLOR_FUNCTION_REGEX.test(value)) {
+    return true
+  }
+  return colorFormat !== "hex" && HEX_COLOR_REGEX.test(value.trim())
+}
+
+/**
+ * Notify `onOutOfGamut` when a color lies outside the sRGB gamut
+ */
+const reportOutOfGamut = (
+  property: string,
+  value: string,
+  options: ConvertOptions
+): void => {
+  if (!options.onOutOfGamut) {
+    return
+  }
+  try {
+    const color = parse(value)
+    if (color && !isInGamut(color)) {
+      options.onOutOfGamut(property, value)
+    }
+  } catch {
+    // Unparseable values are left as-is by the conversion
+  }
+}
+
+/**
+ * Check whether a converted style value is a color
+ */
+export const isColorValue = (value: BaseStyles[string]): boolean => {
+  if (typeof value === "object" && value !== null) {
+    return ["r", "g", "b"].every((channel) => channel in value)
+  }
+  return (
+    typeof value === "string" &&
+    (COLOR_FUNCTION_REGEX.test(value) || HEX_COLOR_REGEX.test(value.trim()))
+  )
+}
+
+/**
+ * Parse a converted style value (a CSS color or numeric channels)
+ *
+ * Returns `undefined` for values that aren't colors.
+ */
+export const parseColorValue = (
+  value: BaseStyles[string] | undefined
+): Color | undefined => {
+  if (typeof value === "object" && value !== null) {
+    const { r, g, b, a = 1 } = value
+    if ([r, g, b, a].some((channel) => typeof channel !== "number")) {
+      return undefined
+    }
+    return {
+      mode: "rgb",
+      r: Number(r) / 255,
+      g: Number(g) / 255,
+      b: Number(b) / 255,
+      alpha: Number(a),
+    }
+  }
+  if (typeof value !== "string") {
+    return undefined
+  }
+  try {
+    return parse(value)
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Format a converted style value as a CSS value
+ *
+ * Numeric channel objects are written as `rgba()`.
+ */
+export const toCssValue = (value: BaseStyles[string]): string => {
+  if (typeof value === "object" && value !== null) {
+    const { r, g, b, a = 1 } = value
+    return `rgba(${r}, ${g}, ${b}, ${a})`
+  }
+  return String(value)
+}
+
+/**
+ * Restore the CSS variable name for a cleaned property name
+ * (the inverse of the cleaning done by `convertStyles`)
+ */
+export const restorePropertyName = (
+  key: string,
+  value: BaseStyles[string]
+): string => {
+  if (key === "color-scheme") {
+    return key
+  }
+  if (DAISYUI_COLOR_NAMES.includes(key) || isColorValue(value)) {
+    return `--color-${key}`
+  }
+  return `--${key}`
+}
+
+/**
+ * Clean a CSS variable name (removes -- and color- prefixes)
+ */
+const cleanPropertyName = (key: string): string => {
+  // Remove --color- prefix
+  if (key.startsWith("--color-")) {
+    return key.replace("--color-", "")
+  }
+  // Remove remaining -- prefix
+  if (key.startsWith("--")) {
+    return key.replace("--", "")
+  }
+  return key
+}
+
+/**
+ * Layer raw styles over a theme's raw styles, the way daisyUI merges a custom
+ * theme into a built-in one
+ *
+ * Selector-wrapped base styles are flattened first so the overrides replace
+ * the base theme's variables instead of sitting next to them.
+ */
+export const layerThemeStyles = (
+  base: BaseStyles,
+  overrides: BaseStyles
+): BaseStyles => {
+  const layered: BaseStyles = {}
+
+  for (const [key, value] of Object.entries(base)) {
+    if (typeof value === "object" && value !== null) {
+      Object.assign(layered, value)
+    } else {
+      layered[key] = value
+    }
+  }
+
+  return Object.assign(layered, overrides)
+}
+
+/**
+ * Convert CSS variables to the requested color format and clean property names
+ *
+ * Selector-wrapped styles (e.g. `{ "[data-theme=forest]": { ... } }` from
+ * daisyUI v5 theme functions) are flattened into the returned map.
+ */
+export const convertStyles = (
+  styles: BaseStyles,
+  options: ConvertOptions = {}
+): BaseStyles => {
+  const converted: BaseStyles = {}
+
+  for (const [key, value] of Object.entries(styles)) {
+    if (typeof value === "object" && value !== null) {
+      Object.assign(converted, convertStyles(value, options))
+      continue
+    }
+
+    const cleanKey = cleanPropertyName(key)
+
+    // Convert colors (handles oklch, rgb, hsl, hex, etc.)
+    if (
+      typeof value === "string" &&
+      isConvertibleColor(value, options.colorFormat ?? "hex")
+    ) {
+      reportOutOfGamut(cleanKey, value, options)
+      converted[cleanKey] = convertColor(value, options)
+    } else {
+      converted[cleanKey] = value
+    }
+  }
+
+  return converted
+}
@@ -0,0 +1,68 @@
+import chalk from "chalk"
+import { auditContrast } from "../contrast.js"
+import type { BaseStyles, ContrastThresholds } from "../types.js"
+
+interface AuditOptions {
+  themes: Record<string, BaseStyles>
+  thresholds: ContrastThresholds
+}
+
+/**
+ * Describe the thresholds for the audit heading
+ */
+const formatThresholds = ({ wcag, apca }: ContrastThresholds): string => {
+  const limits = [
+    ...(wcag !== undefined ? [`WCAG ≥ ${wcag}:1`] : []),
+    ...(apca !== undefined ? [`APCA ≥ Lc ${apca}`] : []),
+  ]
+  return limits.length > 0 ? limits.join(", ") : "no thresholds"
+}
+
+/**
+ * Print a table of the WCAG 2.x and APCA contrast of every color/content pair.
+ * Returns false when a pair is below the thresholds.
+ */
+export const runAudit = ({ themes, thresholds }: AuditOptions): boolean => {
+  const results = auditContrast(themes, thresholds)
+
+  console.log(
+    chalk.cyan.bold(`🔍 Contrast audit (${formatThresholds(thresholds)}):`)
+  )
+  if (results.length === 0) {
+    console.log(chalk.yellow("   No color/content pairs found."))
+    return true
+  }
+
+  const pairs = results.map(
+    ({ background, foreground }) => `${background} / ${foreground}`
+  )
+  const width = Math.max(...pairs.map((pair) => pair.length))
+  let theme: string | undefined
+
+  results.forEach(({ theme: name, wcag, apca, passes }, i): void => {
+    if (name !== theme) {
+      theme = name
+      console.log(`\n   ${chalk.magenta.bold(name)}`)
+    }
+    const row = `${pairs[i].padEnd(width)}  ${`${wcag.toFixed(2)}:1`.padStart(
+      7
+    )}  Lc ${apca.toFixed(1).padStart(6)}`
+    console.log(passes ? chalk.dim(`   ✓ ${row}`) : chalk.red(`   ✗ ${row}`))
+  })
+
+  const failures = results.filter(({ passes }) => !passes)
+  console.log("")
+  if (failures.length > 0) {
+    console.error(
+      chalk.red.bold(
+        `✗ ${failures.length} of ${results.length} pair(s) below ${formatThresholds(
+          thresholds
+        )}`
+      )
+    )
+    return false
+  }
+
+  console.log(chalk.green.bold(`✓ ${results.length} pair(s) checked`))
+  return true
+}
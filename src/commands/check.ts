@@ -0,0 +1,75 @@
+import chalk from "chalk"
+import { existsSync, readFileSync } from "fs"
+import { parseThemesJson, readThemesJson } from "../json.js"
+import type { OutputFormat } from "../types.js"
+import { getRelativePath } from "../utils.js"
+import { printThemeDiff } from "./print-diff.js"
+
+interface CheckOptions {
+  output: string
+  /** Freshly rendered output file content */
+  content: string
+  format: OutputFormat
+}
+
+/**
+ * Find the first line (1-based) where two texts differ
+ */
+const findFirstDifferentLine = (a: string, b: string): number => {
+  const linesA = a.split("\n")
+  const linesB = b.split("\n")
+  const index = linesA.findIndex((line, i) => line !== linesB[i])
+  return (index === -1 ? linesA.length : index) + 1
+}
+
+/**
+ * Compare the rendered output with the existing output file instead of
+ * writing it. Returns false when the file is missing or stale.
+ */
+export const runCheck = ({
+  output,
+  content,
+  format,
+}: CheckOptions): boolean => {
+  const relativePath = getRelativePath(output)
+
+  if (!existsSync(output)) {
+    console.error(chalk.red.bold(`✗ ${relativePath} does not exist`))
+    console.error(chalk.yellow("Run without --check to create it."))
+    return false
+  }
+
+  const existing = readFileSync(output, "utf8")
+  if (existing === content) {
+    console.log(chalk.green.bold(`✓ ${relativePath} is up to date`))
+    return true
+  }
+
+  console.error(chalk.red.bold(`✗ ${relativePath} is out of date`))
+
+  // Property level differences for JSON, the first changed line otherwise
+  let described = false
+  if (format === "json") {
+    try {
+      described = printThemeDiff(
+        readThemesJson(output).themes,
+        parseThemesJson(content, output).themes
+      )
+    } catch {
+      // Not a themes file, fall back to the line
+    }
+  }
+  if (!described) {
+    console.error(
+      chalk.dim(
+        `   First difference at line ${findFirstDifferentLine(
+          existing,
+          content
+        )}`
+      )
+    )
+  }
+
+  console.error(chalk.yellow("Run without --check to update it."))
+  return false
+}
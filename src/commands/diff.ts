@@ -0,0 +1,237 @@
+import chalk from "chalk"
+import { resolve } from "path"
+import { parseArgs } from "util"
+import { COLOR_FORMATS } from "../colors.js"
+import { loadConfig } from "../config.js"
+import { findDaisyuiPackage } from "../daisyui.js"
+import { diffThemes } from "../diff.js"
+import { extractThemes } from "../extract.js"
+import { readThemesJson } from "../json.js"
+import type {
+  BaseStyles,
+  ColorFormat,
+  ConvertOptions,
+  ExtractorConfig,
+  ThemeDiff,
+  ThemeError,
+} from "../types.js"
+import { getErrorMessage, getRelativePath } from "../utils.js"
+import { printThemeDiff } from "./print-diff.js"
+
+interface DiffSide {
+  /** File path or installed package shown in the report */
+  label: string
+  themes: Record<string, BaseStyles>
+}
+
+/**
+ * Extract every theme of the installed daisyui package
+ */
+const loadInstalledSide = async (
+  options: ConvertOptions
+): Promise<DiffSide & { errors: ThemeError[] }> => {
+  const daisyui = findDaisyuiPackage()
+  if (!daisyui) {
+    throw new Error("No installed daisyui package with themes found")
+  }
+
+  const result = await extractThemes({ ...options, themes: daisyui.themes })
+
+  return {
+    label: `daisyui${daisyui.version ? ` ${daisyui.version}` : ""}`,
+    themes: result.themes,
+    errors: result.errors,
+  }
+}
+
+/**
+ * Summarize a diff in one line, e.g. `1 theme(s) added, 3 value(s) changed`
+ */
+const summarizeDiff = ({
+  addedThemes,
+  removedThemes,
+  changes,
+}: ThemeDiff): string => {
+  const changed = changes.filter(
+    ({ before, after }) => before !== undefined && after !== undefined
+  )
+  const counts: [number, string][] = [
+    [addedThemes.length, "theme(s) added"],
+    [removedThemes.length, "theme(s) removed"],
+    [
+      changes.filter(({ before }) => before === undefined).length,
+      "key(s) added",
+    ],
+    [
+      changes.filter(({ after }) => after === undefined).length,
+      "key(s) removed",
+    ],
+    [changed.length, "value(s) changed"],
+  ]
+  const distances = changed.flatMap(({ deltaE }) =>
+    deltaE !== undefined ? [deltaE] : []
+  )
+
+  return `${counts
+    .filter(([count]) => count > 0)
+    .map(([count, label]) => `${count} ${label}`)
+    .join(", ")}${
+    distances.length > 0 ? ` (max ΔE ${Math.max(...distances).toFixed(3)})` : ""
+  }`
+}
+
+/**
+ * Compare two themes JSON files, or a previous output with the themes of the
+ * installed daisyui package
+ */
+export const runDiff = async (args: string[]): Promise<void> => {
+  try {
+    const { values, positionals } = parseArgs({
+      args,
+      options: {
+        json: {
+          type: "boolean" as const,
+          default: false,
+        },
+        "color-format": {
+          type: "string" as const,
+        },
+        "alpha-format": {
+          type: "string" as const,
+        },
+        "gamut-map": {
+          type: "boolean" as const,
+        },
+        config: {
+          type: "string" as const,
+          short: "c",
+        },
+        help: {
+          type: "boolean" as const,
+          short: "h",
+          default: false,
+        },
+      },
+      allowPositionals: true,
+    })
+
+    if (values.help) {
+      console.log(`
+DaisyUI Theme Extractor - diff
+
+Usage: extract-daisyui-themes diff <before.json> [after.json] [options]
+
+Options:
+  --json                  Print the differences as JSON
+  --color-format <format> Color format to extract the installed themes in when
+                          no after.json is given (default: hex)
+  --alpha-format <format> Output for translucent hex colors of the installed
+                          themes: hex8, rgba (default: hex8)
+  --gamut-map             Map out-of-sRGB colors of the installed themes by
+                          reducing OKLCH chroma instead of clipping
+  -c, --config <path>     Config file to read the color options from (default:
+                          daisyui-theme-extractor.config.{json,js,mjs,ts} or
+                          package.json)
+  -h, --help             Show this help message
+
+Compares two themes JSON files written by this tool and lists added and
+removed themes and keys, and changed values with the perceptual distance
+of colors (deltaE OK: Euclidean distance in OKLab, about 0.02 is just
+noticeable). Without after.json, the themes in before.json are compared with
+the ones of the installed daisyui package, e.g. after upgrading daisyui. The
+installed themes are extracted with the color options of the config file
+unless flags are given.
+
+Examples:
+  extract-daisyui-themes diff themes.old.json themes.json
+  extract-daisyui-themes diff src/themes.json
+  extract-daisyui-themes diff src/themes.json --json > theme-diff.json
+      `)
+      process.exit(0)
+    }
+
+    if (!positionals[0]) {
+      throw new Error("No themes JSON file specified")
+    }
+
+    const config: ExtractorConfig =
+      (await loadConfig(values.config))?.config ?? {}
+
+    const colorFormat = (values["color-format"] ??
+      config.colorFormat ??
+      "hex") as ColorFormat
+    if (!COLOR_FORMATS.includes(colorFormat)) {
+      throw new Error(
+        `Invalid --color-format '${colorFormat}' (expected ${COLOR_FORMATS.join(
+          ", "
+        )})`
+      )
+    }
+
+    const alphaFormat = values["alpha-format"] ?? config.alphaFormat ?? "hex8"
+    if (alphaFormat !== "hex8" && alphaFormat !== "rgba") {
+      throw new Error(
+        `Invalid --alpha-format '${alphaFormat}' (expected hex8 or rgba)`
+      )
+    }
+    const gamutMap = values["gamut-map"] ?? config.gamutMap ?? false
+
+    const beforePath = resolve(positionals[0])
+    const { themes, metadata } = readThemesJson(beforePath)
+
+    // Inline themes aren't in the daisyui package, so compare only the others
+    const before: DiffSide = {
+      label: getRelativePath(beforePath),
+      themes: positionals[1]
+        ? themes
+        : Object.fromEntries(
+            Object.entries(themes).filter(
+              ([name]) => metadata?.[name]?.source !== "inline"
+            )
+          ),
+    }
+    const after = positionals[1]
+      ? {
+          label: getRelativePath(resolve(positionals[1])),
+          themes: readThemesJson(resolve(positionals[1])).themes,
+          errors: [],
+        }
+      : await loadInstalledSide({ colorFormat, alphaFormat, gamutMap })
+
+    after.errors.forEach(({ theme, error }: ThemeError): void => {
+      console.error(
+        chalk.red(`✗ Couldn't extract theme '${chalk.bold(theme)}': ${error}`)
+      )
+    })
+
+    const diff = diffThemes(before.themes, after.themes)
+
+    if (values.json) {
+      console.log(
+        JSON.stringify(
+          { before: before.label, after: after.label, ...diff },
+          null,
+          2
+        )
+      )
+      return
+    }
+
+    console.log(
+      chalk.cyan(
+        `🔍 Comparing ${chalk.bold(before.label)} → ${chalk.bold(
+          after.label
+        )}\n`
+      )
+    )
+    if (!printThemeDiff(before.themes, after.themes, Infinity)) {
+      console.log(chalk.green.bold("✓ No differences"))
+      return
+    }
+    console.log("")
+    console.log(chalk.yellow.bold(summarizeDiff(diff)))
+  } catch (error: unknown) {
+    console.error(chalk.red("Error:"), getErrorMessage(error))
+    process.exit(1)
+  }
+}
@@ -0,0 +1,64 @@
+import chalk from "chalk"
+import { convertStyles } from "../colors.js"
+import { findDaisyuiPackage, loadThemeStyles } from "../daisyui.js"
+import { getErrorMessage, getRelativePath } from "../utils.js"
+
+// Colors shown in the terminal swatch for each theme
+const SWATCH_COLORS = ["base-100", "primary", "secondary", "accent", "neutral"]
+
+/**
+ * Render a row of terminal color blocks for a converted theme
+ */
+const renderSwatch = (styles: Record<string, unknown>): string => {
+  return SWATCH_COLORS.map((key) => {
+    const value = styles[key]
+    return typeof value === "string" && value.startsWith("#")
+      ? chalk.bgHex(value)("   ")
+      : "   "
+  }).join(" ")
+}
+
+/**
+ * Print the themes shipped in the installed daisyui package
+ */
+export const runList = async (): Promise<void> => {
+  const daisyui = findDaisyuiPackage()
+  if (!daisyui) {
+    console.error(
+      chalk.red("Error: No installed daisyui package with themes found.")
+    )
+    console.error(
+      chalk.yellow("Install daisyui in this project and try again.")
+    )
+    process.exit(1)
+  }
+
+  const { root, version, themes } = daisyui
+  console.log(
+    chalk.cyan(
+      `📦 daisyui${version ? ` ${chalk.bold(version)}` : ""} (${getRelativePath(
+        root
+      )}): ${chalk.yellow(themes.length)} theme(s)\n`
+    )
+  )
+
+  const width = Math.max(...themes.map((name) => name.length))
+  for (const name of themes) {
+    try {
+      const styles = convertStyles(await loadThemeStyles(name))
+      const colorScheme =
+        typeof styles["color-scheme"] === "string" ? styles["color-scheme"] : ""
+      console.log(
+        `  ${chalk.bold(name.padEnd(width))}  ${chalk.dim(
+          colorScheme.padEnd(5)
+        )}  ${renderSwatch(styles)}`
+      )
+    } catch (error: unknown) {
+      console.log(
+        `  ${chalk.bold(name.padEnd(width))}  ${chalk.red(
+          getErrorMessage(error)
+        )}`
+      )
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import chalk from "chalk"
+import { diffThemes } from "../diff.js"
+import type { BaseStyles } from "../types.js"
+
+// Longest diff printed
+const MAX_DIFF_LINES = 20
+
+/**
+ * Format a style value for the diff
+ */
+const formatValue = (value: BaseStyles[string] | undefined): string => {
+  return typeof value === "object" ? JSON.stringify(value) : String(value)
+}
+
+/**
+ * Print the themes and properties that differ between two sets of themes,
+ * with the perceptual distance of changed colors. Returns false when the
+ * themes are the same.
+ */
+export const printThemeDiff = (
+  before: Record<string, BaseStyles>,
+  after: Record<string, BaseStyles>,
+  maxLines: number = MAX_DIFF_LINES
+): boolean => {
+  const { addedThemes, removedThemes, changes } = diffThemes(before, after)
+  const lines = [
+    ...addedThemes.map((theme) => chalk.green(`   + ${theme}`)),
+    ...removedThemes.map((theme) => chalk.red(`   - ${theme}`)),
+    ...changes.map(({ theme, key, before, after, deltaE }) => {
+      if (before === undefined) {
+        return chalk.green(`   + ${theme}.${key}: ${formatValue(after)}`)
+      }
+      if (after === undefined) {
+        return chalk.red(`   - ${theme}.${key}`)
+      }
+      return (
+        chalk.yellow(
+          `   ~ ${theme}.${key}: ${formatValue(before)} → ${formatValue(after)}`
+        ) +
+        (deltaE !== undefined ? chalk.dim(` (ΔE ${deltaE.toFixed(3)})`) : "")
+      )
+    }),
+  ]
+
+  lines.slice(0, maxLines).forEach((line) => console.log(line))
+  if (lines.length > maxLines) {
+    console.log(chalk.dim(`   … and ${lines.length - maxLines} more`))
+  }
+
+  return lines.length > 0
+}
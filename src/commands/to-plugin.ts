@@ -0,0 +1,89 @@
+import chalk from "chalk"
+import { resolve } from "path"
+import { parseArgs } from "util"
+import { readThemesJson } from "../json.js"
+import { getErrorMessage, getRelativePath, writeOutputFile } from "../utils.js"
+import { renderPlugin } from "../writers/plugin.js"
+
+/**
+ * Generate `@plugin "daisyui/theme"` CSS from a themes JSON file
+ */
+export const runToPlugin = async (args: string[]): Promise<void> => {
+  try {
+    const { values, positionals } = parseArgs({
+      args,
+      options: {
+        output: {
+          type: "string" as const,
+          short: "o",
+        },
+        "default-theme": {
+          type: "string" as const,
+        },
+        "prefers-dark": {
+          type: "string" as const,
+        },
+        help: {
+          type: "boolean" as const,
+          short: "h",
+          default: false,
+        },
+      },
+      allowPositionals: true,
+    })
+
+    if (values.help) {
+      console.log(`
+DaisyUI Theme Extractor - to-plugin
+
+Usage: extract-daisyui-themes to-plugin <themes.json> [options]
+
+Options:
+  -o, --output <path>     Output CSS file path (default: print to stdout)
+  --default-theme <name>  Mark this theme as default (default: from $metadata)
+  --prefers-dark <name>   Mark this theme as prefersdark (default: from $metadata)
+  -h, --help             Show this help message
+
+Generates daisyUI v5 @plugin "daisyui/theme" blocks from a themes JSON file
+written by this tool.
+
+Examples:
+  extract-daisyui-themes to-plugin themes.json -o src/themes.css
+  extract-daisyui-themes to-plugin themes.json --default-theme light --prefers-dark dark
+      `)
+      process.exit(0)
+    }
+
+    if (!positionals[0]) {
+      throw new Error("No themes JSON file specified")
+    }
+
+    const input = resolve(positionals[0])
+    const { themes, metadata } = readThemesJson(input)
+    const css = renderPlugin(themes, {
+      defaultTheme: values["default-theme"],
+      prefersDarkTheme: values["prefers-dark"],
+      metadata,
+    })
+
+    if (!values.output) {
+      process.stdout.write(css)
+      return
+    }
+
+    const output = resolve(values.output)
+    writeOutputFile(output, css)
+    console.log(
+      chalk.green.bold(
+        `✨ Successfully wrote ${chalk.yellow(
+          Object.keys(themes).length
+        )} theme(s) from ${chalk.cyan(
+          getRelativePath(input)
+        )} to ${chalk.cyan(getRelativePath(output))}`
+      )
+    )
+  } catch (error: unknown) {
+    console.error(chalk.red("Error:"), getErrorMessage(error))
+    process.exit(1)
+  }
+}
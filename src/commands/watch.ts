@@ -0,0 +1,160 @@
+import chalk from "chalk"
+import { statSync } from "fs"
+import { join } from "path"
+import { findDaisyuiPackage } from "../daisyui.js"
+import { extractThemes } from "../extract.js"
+import type { ExtractOptions, ExtractResult, ThemeError } from "../types.js"
+import { getErrorMessage, getRelativePath, writeOutputFile } from "../utils.js"
+import { watchFiles } from "../watch.js"
+import { printThemeDiff } from "./print-diff.js"
+
+interface WatchOptions {
+  extractOptions: ExtractOptions
+  /** Render an extraction result to output file contents keyed by path */
+  render: (result: ExtractResult) => Record<string, string>
+  /** Result of the extraction that wrote the current outputs */
+  initial: ExtractResult
+}
+
+/**
+ * Get the modification time of a file, or undefined if it can't be read
+ */
+const getModifiedTime = (file: string): number | undefined => {
+  try {
+    return statSync(file).mtimeMs
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Re-extract themes whenever the CSS files or the installed daisyui package
+ * change, and rewrite the output when the rendered result differs
+ *
+ * Changes made during an extraction run it again once it finishes. Returns a
+ * function that stops watching.
+ */
+export const runWatch = async ({
+  extractOptions,
+  render,
+  initial,
+}: WatchOptions): Promise<() => void> => {
+  let previous = initial
+  let contents = render(initial)
+  let version = findDaisyuiPackage()?.version
+  let running = false
+  let stopped = false
+  let queued: string | undefined
+  let watched: string[] = []
+  let stop = (): void => {}
+
+  // CSS files (including imports) and the daisyui package.json
+  const getWatchedFiles = (): string[] => {
+    const daisyui = findDaisyuiPackage()
+    return [
+      ...previous.cssFiles,
+      ...(daisyui ? [join(daisyui.root, "package.json")] : []),
+    ]
+  }
+
+  /**
+   * Watch the current files, replacing the watchers only when the files
+   * changed. Returns whether they were replaced.
+   */
+  const rewatch = (): boolean => {
+    const files = getWatchedFiles()
+    if (files.join("\n") === watched.join("\n")) {
+      return false
+    }
+    stop()
+    watched = files
+    stop = watchFiles(files, update)
+    return true
+  }
+
+  const update = async (file: string): Promise<void> => {
+    if (running) {
+      queued = file
+      return
+    }
+    running = true
+    const modified = new Map(
+      watched.map((watchedFile) => [watchedFile, getModifiedTime(watchedFile)])
+    )
+
+    console.log("")
+    console.log(chalk.cyan(`↻ ${getRelativePath(file)} changed`))
+    try {
+      const nextVersion = findDaisyuiPackage()?.version
+      if (nextVersion !== version) {
+        console.log(
+          chalk.cyan(
+            `   daisyui ${version ?? "(none)"} → ${nextVersion ?? "(none)"}`
+          )
+        )
+        version = nextVersion
+      }
+
+      const result = await extractThemes(extractOptions)
+      result.errors.forEach(({ theme, error }: ThemeError): void => {
+        console.error(
+          chalk.red(`   ✗ Skipping theme '${chalk.bold(theme)}': ${error}`)
+        )
+      })
+
+      const next = render(result)
+      const changed = Object.entries(next).filter(
+        ([output, content]) => contents[output] !== content
+      )
+      if (changed.length === 0) {
+        console.log(chalk.dim("   No changes in extracted themes"))
+      } else {
+        if (!printThemeDiff(previous.themes, result.themes)) {
+          console.log(chalk.dim("   Theme metadata changed"))
+        }
+        for (const [output, content] of changed) {
+          writeOutputFile(output, content)
+          console.log(
+            chalk.green(`   ✨ Updated ${chalk.cyan(getRelativePath(output))}`)
+          )
+        }
+      }
+      contents = next
+      previous = result
+    } catch (error: unknown) {
+      console.error(chalk.red("   Error:"), getErrorMessage(error))
+    }
+
+    running = false
+    if (stopped) {
+      return
+    }
+
+    // Replacing the watchers drops a change they were about to report
+    if (rewatch() && !queued) {
+      queued = [...modified].find(
+        ([watchedFile, time]) => getModifiedTime(watchedFile) !== time
+      )?.[0]
+    }
+    if (queued) {
+      const next = queued
+      queued = undefined
+      await update(next)
+    }
+  }
+
+  rewatch()
+  console.log("")
+  console.log(
+    chalk.cyan(
+      `👀 Watching ${chalk.bold(
+        watched.length
+      )} file(s) for changes (Ctrl+C to stop)`
+    )
+  )
+
+  return (): void => {
+    stopped = true
+    stop()
+  }
+}
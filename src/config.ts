@@ -0,0 +1,292 @@
+import { existsSync, readFileSync, rmSync, writeFileSync } from "fs"
+import { basename, dirname, join, resolve } from "path"
+import { pathToFileURL } from "url"
+import { COLOR_FORMATS } from "./colors.js"
+import type { ExtractorConfig, OutputTarget } from "./types.js"
+import { getErrorMessage, getRelativePath, isErrnoException } from "./utils.js"
+import { OUTPUT_FORMATS } from "./writers/index.js"
+
+/**
+ * Config file names, in the order they are looked up
+ */
+export const CONFIG_FILES = [
+  "daisyui-theme-extractor.config.json",
+  "daisyui-theme-extractor.config.js",
+  "daisyui-theme-extractor.config.mjs",
+  "daisyui-theme-extractor.config.ts",
+]
+
+/**
+ * package.json key holding the config when there is no config file
+ */
+export const PACKAGE_JSON_KEY = "daisyui-theme-extractor"
+
+type OptionCheck = [check: (value: unknown) => boolean, expected: string]
+
+const isString = (value: unknown): value is string => typeof value === "string"
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(isString)
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+const oneOf = (values: readonly string[]): OptionCheck => [
+  (value) => isString(value) && values.includes(value),
+  `one of ${values.join(", ")}`,
+]
+
+const STRING: OptionCheck = [isString, "a string"]
+const BOOLEAN: OptionCheck = [
+  (value) => typeof value === "boolean",
+  "a boolean",
+]
+const POSITIVE_NUMBER: OptionCheck = [
+  (value) => typeof value === "number" && value > 0,
+  "a positive number",
+]
+
+const TARGET_OPTIONS: Record<keyof OutputTarget, OptionCheck> = {
+  output: STRING,
+  format: oneOf(OUTPUT_FORMATS),
+  defaultTheme: STRING,
+  prefersDark: STRING,
+  metadata: BOOLEAN,
+}
+
+const CONFIG_OPTIONS: Record<
+  Exclude<keyof ExtractorConfig, "outputs">,
+  OptionCheck
+> = {
+  ...TARGET_OPTIONS,
+  themes: [isStringArray, "an array of strings"],
+  readCss: BOOLEAN,
+  cssPath: [
+    (value) => isString(value) || isStringArray(value),
+    "a string or an array of strings",
+  ],
+  colorFormat: oneOf(COLOR_FORMATS),
+  alphaFormat: oneOf(["hex8", "rgba"]),
+  gamutMap: BOOLEAN,
+  deriveColors: BOOLEAN,
+  minContrast: POSITIVE_NUMBER,
+  minApca: POSITIVE_NUMBER,
+}
+
+/**
+ * Typed helper for `daisyui-theme-extractor.config.ts` files
+ */
+export const defineConfig = (config: ExtractorConfig): ExtractorConfig => {
+  return config
+}
+
+/**
+ * Check a config object, throwing on unknown options and wrong value types
+ */
+export const validateConfig = (
+  value: unknown,
+  source: string
+): ExtractorConfig => {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid config in ${source}: ${message}`)
+  }
+
+  const checkOptions = (
+    options: Record<string, unknown>,
+    checks: Record<string, OptionCheck>,
+    prefix: string
+  ): void => {
+    for (const [key, option] of Object.entries(options)) {
+      if (!Object.hasOwn(checks, key)) {
+        fail(`unknown option '${prefix}${key}'`)
+      }
+      const [check, expected] = checks[key]
+      if (!check(option)) {
+        fail(`'${prefix}${key}' must be ${expected}`)
+      }
+    }
+  }
+
+  if (!isObject(value)) {
+    return fail("expected an object")
+  }
+
+  const { outputs, ...options } = value
+  checkOptions(options, CONFIG_OPTIONS, "")
+
+  if (outputs !== undefined) {
+    if (!isObject(outputs)) {
+      fail("'outputs' must be an object of output targets")
+    }
+    for (const [name, target] of Object.entries(outputs as object)) {
+      if (!isObject(target) || !isString(target.output)) {
+        fail(`'outputs.${name}' must be an object with an 'output' path`)
+      }
+      checkOptions(target, TARGET_OPTIONS, `outputs.${name}.`)
+    }
+  }
+
+  return value as ExtractorConfig
+}
+
+/**
+ * Import the default export of a JavaScript or TypeScript config file
+ *
+ * TypeScript configs are imported directly where Node.js strips types, and
+ * are otherwise transpiled with the project's `typescript` package.
+ */
+const importConfigModule = async (configPath: string): Promise<unknown> => {
+  try {
+    return (
+      (await import(pathToFileURL(configPath).href)) as {
+        default?: unknown
+      }
+    ).default
+  } catch (error: unknown) {
+    if (
+      !configPath.endsWith(".ts") ||
+      !isErrnoException(error) ||
+      error.code !== "ERR_UNKNOWN_FILE_EXTENSION"
+    ) {
+      throw error
+    }
+  }
+
+  let ts: typeof import("typescript")
+  try {
+    ts = (await import("typescript")).default
+  } catch {
+    throw new Error(
+      `Loading ${basename(
+        configPath
+      )} requires Node.js with type stripping or the typescript package`
+    )
+  }
+
+  const { outputText } = ts.transpileModule(readFileSync(configPath, "utf8"), {
+    compilerOptions: {
+      module: ts.ModuleKind.ESNext,
+      target: ts.ScriptTarget.ES2022,
+    },
+  })
+
+  // Written next to the config so its relative imports resolve
+  const compiledPath = join(
+    dirname(configPath),
+    `.${basename(configPath, ".ts")}.${process.pid}.mjs`
+  )
+  writeFileSync(compiledPath, outputText, "utf8")
+  try {
+    return (
+      (await import(pathToFileURL(compiledPath).href)) as {
+        default?: unknown
+      }
+    ).default
+  } finally {
+    rmSync(compiledPath, { force: true })
+  }
+}
+
+/**
+ * Resolve the paths of a config relative to its directory
+ */
+const resolveConfigPaths = (
+  config: ExtractorConfig,
+  dir: string
+): ExtractorConfig => {
+  const { cssPath, output, outputs } = config
+
+  return {
+    ...config,
+    ...(cssPath !== undefined && {
+      cssPath: Array.isArray(cssPath)
+        ? cssPath.map((path) => resolve(dir, path))
+        : resolve(dir, cssPath),
+    }),
+    ...(output !== undefined && { output: resolve(dir, output) }),
+    ...(outputs !== undefined && {
+      outputs: Object.fromEntries(
+        Object.entries(outputs).map(([name, target]) => [
+          name,
+          { ...target, output: resolve(dir, target.output) },
+        ])
+      ),
+    }),
+  }
+}
+
+/**
+ * Read and validate a config file
+ */
+const readConfigFile = async (configPath: string): Promise<ExtractorConfig> => {
+  let value: unknown
+  if (configPath.endsWith(".json")) {
+    try {
+      value = JSON.parse(readFileSync(configPath, "utf8"))
+    } catch (error: unknown) {
+      throw new Error(
+        `Invalid JSON in ${getRelativePath(configPath)}: ${getErrorMessage(
+          error
+        )}`
+      )
+    }
+  } else {
+    value = await importConfigModule(configPath)
+  }
+
+  return resolveConfigPaths(
+    validateConfig(value, getRelativePath(configPath)),
+    dirname(configPath)
+  )
+}
+
+/**
+ * Load the config from `configPath`, or else from the first config file or
+ * package.json key found in `cwd`. Relative paths in the config are resolved
+ * from its directory.
+ */
+export const loadConfig = async (
+  configPath?: string,
+  cwd: string = process.cwd()
+): Promise<{ config: ExtractorConfig; path: string } | undefined> => {
+  if (configPath) {
+    const path = resolve(cwd, configPath)
+    if (!existsSync(path)) {
+      throw new Error(`Config file not found: ${configPath}`)
+    }
+    return { config: await readConfigFile(path), path }
+  }
+
+  for (const name of CONFIG_FILES) {
+    const path = join(cwd, name)
+    if (existsSync(path)) {
+      return { config: await readConfigFile(path), path }
+    }
+  }
+
+  const packageJsonPath = join(cwd, "package.json")
+  if (!existsSync(packageJsonPath)) {
+    return undefined
+  }
+
+  let packageJson: unknown
+  try {
+    packageJson = JSON.parse(readFileSync(packageJsonPath, "utf8"))
+  } catch {
+    return undefined
+  }
+  if (!isObject(packageJson) || packageJson[PACKAGE_JSON_KEY] === undefined) {
+    return undefined
+  }
+
+  return {
+    config: resolveConfigPaths(
+      validateConfig(
+        packageJson[PACKAGE_JSON_KEY],
+        `package.json "${PACKAGE_JSON_KEY}"`
+      ),
+      cwd
+    ),
+    path: packageJsonPath,
+  }
+}
@@ -0,0 +1,155 @@
+import { clampRgb, converter, wcagContrast } from "culori"
+import type { Color, Rgb } from "culori"
+import { parseColorValue } from "./colors.js"
+import type { BaseStyles, ContrastResult, ContrastThresholds } from "./types.js"
+
+/**
+ * Background and content color pairs checked by the contrast audit
+ */
+export const CONTRAST_PAIRS: readonly [background: string, content: string][] =
+  [
+    ["base-100", "base-content"],
+    ["base-200", "base-content"],
+    ["base-300", "base-content"],
+    ["primary", "primary-content"],
+    ["secondary", "secondary-content"],
+    ["accent", "accent-content"],
+    ["neutral", "neutral-content"],
+    ["info", "info-content"],
+    ["success", "success-content"],
+    ["warning", "warning-content"],
+    ["error", "error-content"],
+  ]
+
+const toRgb = converter("rgb")
+
+// APCA-W3 0.0.98G-4g constants
+const APCA = {
+  mainTrc: 2.4,
+  sRco: 0.2126729,
+  sGco: 0.7151522,
+  sBco: 0.072175,
+  normBg: 0.56,
+  normTxt: 0.57,
+  revTxt: 0.62,
+  revBg: 0.65,
+  blkThrs: 0.022,
+  blkClmp: 1.414,
+  scale: 1.14,
+  loOffset: 0.027,
+  loClip: 0.1,
+  deltaYMin: 0.0005,
+}
+
+/**
+ * Parse a converted style value (any CSS color or numeric channels) to sRGB
+ */
+const toRgbColor = (value: BaseStyles[string] | undefined): Rgb | undefined => {
+  const color = parseColorValue(value)
+  return color && toRgb(color)
+}
+
+/**
+ * Blend a translucent foreground over an opaque background
+ */
+const composite = (foreground: Rgb, background: Rgb): Rgb => {
+  const { alpha = 1 } = foreground
+  const mix = (channel: "r" | "g" | "b"): number =>
+    foreground[channel] * alpha + background[channel] * (1 - alpha)
+  return { mode: "rgb", r: mix("r"), g: mix("g"), b: mix("b") }
+}
+
+/**
+ * Screen luminance as defined by APCA, with the soft clamp for near-black
+ */
+const apcaLuminance = ({ r, g, b }: Rgb): number => {
+  const linear = (channel: number): number =>
+    Math.sign(channel) * Math.abs(channel) ** APCA.mainTrc
+  const y =
+    APCA.sRco * linear(r) + APCA.sGco * linear(g) + APCA.sBco * linear(b)
+  return y > APCA.blkThrs ? y : y + (APCA.blkThrs - y) ** APCA.blkClmp
+}
+
+/**
+ * Compute the APCA lightness contrast (Lc) of text on a background
+ *
+ * Positive for dark text on a light background, negative for light text on a
+ * dark background; about ±106 for black and white.
+ */
+export const getApcaContrast = (text: Color, background: Color): number => {
+  const textY = apcaLuminance(clampRgb(toRgb(text)))
+  const backgroundY = apcaLuminance(clampRgb(toRgb(background)))
+
+  if (Math.abs(backgroundY - textY) < APCA.deltaYMin) {
+    return 0
+  }
+
+  if (backgroundY > textY) {
+    const sapc =
+      (backgroundY ** APCA.normBg - textY ** APCA.normTxt) * APCA.scale
+    return sapc < APCA.loClip ? 0 : (sapc - APCA.loOffset) * 100
+  }
+
+  const sapc = (backgroundY ** APCA.revBg - textY ** APCA.revTxt) * APCA.scale
+  return sapc > -APCA.loClip ? 0 : (sapc + APCA.loOffset) * 100
+}
+
+/**
+ * Compute the WCAG 2.x contrast ratio (1 to 21) of two colors
+ */
+export const getWcagContrast = (a: Color, b: Color): number => {
+  return wcagContrast(clampRgb(toRgb(a)), clampRgb(toRgb(b)))
+}
+
+/**
+ * Check whether a contrast result meets the thresholds. APCA is compared by
+ * magnitude, so the polarity of the pair doesn't matter.
+ */
+const meetsThresholds = (
+  { wcag, apca }: Pick<ContrastResult, "wcag" | "apca">,
+  thresholds: ContrastThresholds
+): boolean => {
+  return (
+    (thresholds.wcag === undefined || wcag >= thresholds.wcag) &&
+    (thresholds.apca === undefined || Math.abs(apca) >= thresholds.apca)
+  )
+}
+
+/**
+ * Compute the WCAG 2.x and APCA contrast of every background/content pair of
+ * each theme
+ *
+ * Pairs with a missing or unparseable color are skipped. Translucent content
+ * colors are blended over their background first.
+ */
+export const auditContrast = (
+  themes: Record<string, BaseStyles>,
+  thresholds: ContrastThresholds = {}
+): ContrastResult[] => {
+  const results: ContrastResult[] = []
+
+  for (const [theme, styles] of Object.entries(themes)) {
+    for (const [background, foreground] of CONTRAST_PAIRS) {
+      const backgroundColor = toRgbColor(styles[background])
+      const foregroundColor = toRgbColor(styles[foreground])
+      if (!backgroundColor || !foregroundColor) {
+        continue
+      }
+
+      const text = composite(foregroundColor, backgroundColor)
+      const contrast = {
+        wcag: getWcagContrast(text, backgroundColor),
+        apca: getApcaContrast(text, backgroundColor),
+      }
+      results.push({
+        theme,
+        background,
+        foreground,
+        ...contrast,
+        passes: meetsThresholds(contrast, thresholds),
+      })
+    }
+  }
+
+  return results
+}
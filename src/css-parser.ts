@@ -0,0 +1,293 @@
+import type {
+  CssAtRule,
+  CssDeclaration,
+  CssNode,
+  CssPosition,
+  CssRule,
+} from "./types.js"
+import { getRelativePath } from "./utils.js"
+
+// Start of a `property: value` declaration, used to recover from a missing
+// semicolon at the end of a line (no `{` before the declaration ends)
+const DECLARATION_START_REGEX = /[ \t]*(?:--)?[a-zA-Z_][\w-]*\s*:[^{};]*[;}]/y
+
+const AT_RULE_REGEX = /^@([\w-]+)\s*([\s\S]*)$/
+const IMPORTANT_REGEX = /\s*!\s*important$/i
+
+/**
+ * Create a lookup from string offsets to 1-based line and column
+ */
+const createPositionLookup = (
+  css: string
+): ((offset: number) => CssPosition) => {
+  const lineStarts = [0]
+  for (let i = 0; i < css.length; i++) {
+    if (css[i] === "\n") {
+      lineStarts.push(i + 1)
+    }
+  }
+
+  return (offset: number): CssPosition => {
+    // Binary search for the last line starting at or before the offset
+    let low = 0
+    let high = lineStarts.length - 1
+    while (low < high) {
+      const mid = (low + high + 1) >> 1
+      if (lineStarts[mid] <= offset) {
+        low = mid
+      } else {
+        high = mid - 1
+      }
+    }
+
+    return { line: low + 1, column: offset - lineStarts[low] + 1 }
+  }
+}
+
+/**
+ * Parse a stylesheet into a tree of rules, at-rules, declarations and comments
+ *
+ * Comments and quoted strings are skipped as a unit, whitespace outside
+ * strings is collapsed, and `;` inside parentheses (e.g. `url(data:...)`) does
+ * not end a declaration. Like the previous line-based reader it tolerates
+ * `//` line comments, a missing semicolon at the end of a line and missing
+ * closing braces at the end of the file.
+ *
+ * Errors include the line and column, prefixed by `options.from` if given.
+ * `options.from` is also recorded as the `source` of every node position.
+ */
+export const parseCss = (
+  css: string,
+  options: { from?: string } = {}
+): CssNode[] => {
+  const { from } = options
+  const lookupPosition = createPositionLookup(css)
+  const getPosition = (offset: number): CssPosition => ({
+    ...lookupPosition(offset),
+    ...(from && { source: from }),
+  })
+
+  const fail = (message: string, offset: number): never => {
+    const { line, column } = lookupPosition(offset)
+    const location = from
+      ? `${getRelativePath(from)}:${line}:${column}`
+      : `line ${line}, column ${column}`
+    throw new Error(`${message} at ${location}`)
+  }
+
+  const root: CssNode[] = []
+  const stack: (CssRule | CssAtRule)[] = []
+  let nodes: CssNode[] = root
+  let buffer = ""
+  let bufferStart = 0
+  let parenDepth = 0
+
+  const append = (text: string, offset: number): void => {
+    if (buffer.length === 0) {
+      bufferStart = offset
+    }
+    buffer += text
+  }
+
+  // End the pending statement: a declaration or an at-rule without block
+  const flushStatement = (): void => {
+    const text = buffer.trim()
+    buffer = ""
+    parenDepth = 0
+    if (text.length === 0) {
+      return
+    }
+
+    const position = getPosition(bufferStart)
+    const atRule = text.match(AT_RULE_REGEX)
+    if (atRule) {
+      nodes.push({
+        kind: "at-rule",
+        name: atRule[1],
+        params: atRule[2].trim(),
+        nodes: null,
+        position,
+      })
+      return
+    }
+
+    // Invalid declarations are dropped, as browsers do
+    const colon = text.indexOf(":")
+    if (colon <= 0) {
+      return
+    }
+
+    const rawValue = text.slice(colon + 1).trim()
+    const important = IMPORTANT_REGEX.test(rawValue)
+    const declaration: CssDeclaration = {
+      kind: "declaration",
+      property: text.slice(0, colon).trim(),
+      value: important ? rawValue.replace(IMPORTANT_REGEX, "") : rawValue,
+      important,
+      position,
+    }
+    nodes.push(declaration)
+  }
+
+  // Start a rule or at-rule block from the pending prelude
+  const openBlock = (offset: number): void => {
+    const text = buffer.trim()
+    buffer = ""
+    parenDepth = 0
+    if (text.length === 0) {
+      fail("Missing selector before '{'", offset)
+    }
+
+    const position = getPosition(bufferStart)
+    const atRule = text.match(AT_RULE_REGEX)
+    const block: CssRule | CssAtRule = atRule
+      ? {
+          kind: "at-rule",
+          name: atRule[1],
+          params: atRule[2].trim(),
+          nodes: [],
+          position,
+        }
+      : { kind: "rule", selector: text, nodes: [], position }
+
+    nodes.push(block)
+    stack.push(block)
+    nodes = block.nodes as CssNode[]
+  }
+
+  const closeBlock = (offset: number): void => {
+    flushStatement()
+    if (!stack.pop()) {
+      fail("Unexpected '}'", offset)
+    }
+    nodes = (stack[stack.length - 1]?.nodes as CssNode[] | undefined) ?? root
+  }
+
+  for (let i = 0; i < css.length; i++) {
+    const char = css[i]
+
+    // Block comments
+    if (char === "/" && css[i + 1] === "*") {
+      const end = css.indexOf("*/", i + 2)
+      if (end === -1) {
+        fail("Unclosed comment", i)
+      }
+      if (buffer.trim().length === 0) {
+        nodes.push({
+          kind: "comment",
+          value: css.slice(i + 2, end).trim(),
+          position: getPosition(i),
+        })
+      } else if (!buffer.endsWith(" ")) {
+        buffer += " "
+      }
+      i = end + 1
+      continue
+    }
+
+    // `//` comments on their own line (not valid CSS, but commonly written)
+    if (
+      char === "/" &&
+      css[i + 1] === "/" &&
+      parenDepth === 0 &&
+      /(^|\n)[ \t]*$/.test(css.slice(Math.max(0, i - 200), i))
+    ) {
+      const end = css.indexOf("\n", i)
+      i = end === -1 ? css.length : end - 1
+      continue
+    }
+
+    // Quoted strings are copied verbatim
+    if (char === '"' || char === "'") {
+      let end = i + 1
+      while (end < css.length && css[end] !== char) {
+        if (css[end] === "\\") {
+          end++
+        } else if (css[end] === "\n") {
+          fail("Unclosed string", i)
+        }
+        end++
+      }
+      if (end >= css.length) {
+        fail("Unclosed string", i)
+      }
+      append(css.slice(i, end + 1), i)
+      i = end
+      continue
+    }
+
+    // Escapes keep the next character as is
+    if (char === "\\") {
+      append(css.slice(i, i + 2), i)
+      i++
+      continue
+    }
+
+    if (/\s/.test(char)) {
+      // A new declaration on the next line ends one missing its semicolon
+      if (
+        char === "\n" &&
+        parenDepth === 0 &&
+        buffer.includes(":") &&
+        !buffer.trimStart().startsWith("@")
+      ) {
+        DECLARATION_START_REGEX.lastIndex = i + 1
+        if (DECLARATION_START_REGEX.test(css)) {
+          flushStatement()
+          continue
+        }
+      }
+
+      if (buffer.length > 0 && !buffer.endsWith(" ")) {
+        buffer += " "
+      }
+      continue
+    }
+
+    switch (char) {
+      case "(":
+        parenDepth++
+        append(char, i)
+        break
+      case ")":
+        parenDepth = Math.max(0, parenDepth - 1)
+        append(char, i)
+        break
+      case ";":
+        if (parenDepth > 0) {
+          append(char, i)
+        } else {
+          flushStatement()
+        }
+        break
+      case "{":
+        openBlock(i)
+        break
+      case "}":
+        closeBlock(i)
+        break
+      default:
+        append(char, i)
+    }
+  }
+
+  // Missing semicolon and closing braces at the end of the file
+  flushStatement()
+
+  return root
+}
+
+/**
+ * Visit every node of a parsed stylesheet, depth first
+ */
+export const walkCss = (
+  nodes: CssNode[],
+  visit: (node: CssNode) => void
+): void => {
+  for (const node of nodes) {
+    visit(node)
+    if ((node.kind === "rule" || node.kind === "at-rule") && node.nodes) {
+      walkCss(node.nodes, visit)
+    }
+  }
+}
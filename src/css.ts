@@ -0,0 +1,473 @@
+import { existsSync, readFileSync } from "fs"
+import { dirname, join, resolve } from "path"
+import { convertStyles } from "./colors.js"
+import { parseCss, walkCss } from "./css-parser.js"
+import { expandGlob, hasGlobPattern } from "./glob.js"
+import type {
+  BaseStyles,
+  ConvertOptions,
+  CssFileData,
+  CssNode,
+  CssPosition,
+  CssThemeData,
+  CssThemeReference,
+  DaisyuiPluginConfig,
+  ThemeConflict,
+} from "./types.js"
+import { getRelativePath } from "./utils.js"
+
+/**
+ * Remove matching quotes around a value
+ */
+const unquote = (value: string): string => {
+  return value.replace(/^(["'])(.*)\1$/, "$2")
+}
+
+/**
+ * Split a comma-separated option value into trimmed entries
+ */
+const splitList = (value: string): string[] => {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+}
+
+/**
+ * Find the `@plugin "<name>" { ... }` blocks of a parsed stylesheet
+ */
+const findPluginBlocks = (
+  nodes: CssNode[],
+  name: string
+): { position: CssPosition; nodes: CssNode[] }[] => {
+  const blocks: { position: CssPosition; nodes: CssNode[] }[] = []
+
+  walkCss(nodes, (node) => {
+    if (
+      node.kind === "at-rule" &&
+      node.name === "plugin" &&
+      node.nodes &&
+      unquote(node.params) === name
+    ) {
+      blocks.push({ position: node.position, nodes: node.nodes })
+    }
+  })
+
+  return blocks
+}
+
+/**
+ * Read the theme options of parsed @plugin "daisyui" blocks
+ */
+const readPluginConfig = (nodes: CssNode[]): DaisyuiPluginConfig => {
+  const references = new Map<string, CssThemeReference>()
+  const exclude: string[] = []
+  let allThemes = false
+
+  for (const { nodes: block } of findPluginBlocks(nodes, "daisyui")) {
+    for (const node of block) {
+      if (node.kind !== "declaration") {
+        continue
+      }
+
+      if (node.property === "exclude") {
+        exclude.push(...splitList(node.value))
+        continue
+      }
+      if (node.property !== "themes") {
+        continue
+      }
+
+      // Split by comma and separate theme names from their --flags
+      for (const entry of splitList(node.value)) {
+        const [name, ...flags] = entry.split(/\s+--/)
+        const cleaned = unquote(name.trim())
+
+        // `all` enables every installed theme, `false` disables built-in themes
+        if (cleaned === "all") {
+          allThemes = true
+          continue
+        }
+        if (cleaned === "false" || cleaned.length === 0) {
+          continue
+        }
+
+        const existing = references.get(cleaned)
+        const source = existing?.source ?? node.position.source
+        references.set(cleaned, {
+          name: cleaned,
+          default: Boolean(existing?.default) || flags.includes("default"),
+          prefersdark:
+            Boolean(existing?.prefersdark) || flags.includes("prefersdark"),
+          ...(source && { source }),
+        })
+      }
+    }
+  }
+
+  return {
+    // Duplicates are merged
+    themes: [...references.values()].filter(
+      ({ name }) => !exclude.includes(name)
+    ),
+    allThemes,
+    exclude: [...new Set(exclude)],
+  }
+}
+
+/**
+ * Parse CSS file to extract the theme options of @plugin "daisyui" blocks
+ *
+ * Understands `themes: all`, `themes: false` and `exclude:`. Theme names
+ * listed in `exclude:` are removed from the returned references.
+ */
+export const parseDaisyuiPluginFromCss = (
+  cssContent: string
+): DaisyuiPluginConfig => {
+  return readPluginConfig(parseCss(cssContent))
+}
+
+/**
+ * Parse CSS file to extract theme references (with their --default and
+ * --prefersdark flags) from @plugin "daisyui" blocks
+ */
+export const extractThemeReferencesFromCss = (
+  cssContent: string
+): CssThemeReference[] => {
+  return parseDaisyuiPluginFromCss(cssContent).themes
+}
+
+/**
+ * Parse CSS file to extract theme names from @plugin "daisyui" blocks
+ */
+export const extractThemeNamesFromCss = (cssContent: string): string[] => {
+  return extractThemeReferencesFromCss(cssContent).map(({ name }) => name)
+}
+
+/**
+ * Read raw (unconverted) inline themes from parsed @plugin "daisyui/theme"
+ * blocks
+ */
+const readInlineThemes = (nodes: CssNode[]): CssThemeData[] => {
+  const themes: CssThemeData[] = []
+
+  for (const { position, nodes: block } of findPluginBlocks(
+    nodes,
+    "daisyui/theme"
+  )) {
+    const styles: BaseStyles = {}
+    const flags: Pick<CssThemeData, "default" | "prefersdark" | "extends"> = {}
+    let themeName = ""
+
+    for (const node of block) {
+      if (node.kind !== "declaration") {
+        continue
+      }
+
+      const { property, value } = node
+      if (property === "name") {
+        themeName = unquote(value)
+      } else if (property.startsWith("--")) {
+        // Store CSS variables
+        styles[property] = value
+      } else if (property === "color-scheme") {
+        styles["color-scheme"] = value
+      } else if (property === "default" || property === "prefersdark") {
+        // Kept as theme metadata, not as styles
+        flags[property] = value === "true"
+      } else if (property === "extends") {
+        flags.extends = unquote(value)
+      }
+    }
+
+    // A theme that only extends another one may not override anything
+    if (themeName && (Object.keys(styles).length > 0 || flags.extends)) {
+      themes.push({
+        name: themeName,
+        styles,
+        ...flags,
+        ...(position.source && { source: position.source }),
+      })
+    }
+  }
+
+  return themes
+}
+
+/**
+ * Parse CSS file to extract raw (unconverted) inline theme definitions from
+ * @plugin "daisyui/theme" blocks
+ */
+export const parseInlineThemesFromCss = (
+  cssContent: string
+): CssThemeData[] => {
+  return readInlineThemes(parseCss(cssContent))
+}
+
+/**
+ * Parse CSS file to extract inline theme definitions from @plugin "daisyui/theme" blocks
+ */
+export const extractInlineThemesFromCss = (
+  cssContent: string,
+  options: ConvertOptions = {}
+): CssThemeData[] => {
+  return parseInlineThemesFromCss(cssContent).map((theme) => ({
+    ...theme,
+    styles: convertStyles(theme.styles, options),
+  }))
+}
+
+/**
+ * Get the file or package an `@import` refers to, e.g. `"./themes.css"` or
+ * `url("./themes.css") layer(base)`
+ */
+const getImportSpecifier = (params: string): string | undefined => {
+  const match = params.match(/^(?:url\(\s*)?(?:(["'])(.*?)\1|([^\s)"']+))/)
+  return match?.[2] ?? match?.[3]
+}
+
+/**
+ * Find the stylesheet of an installed package, e.g. `@import "some-pkg"` or
+ * `@import "some-pkg/themes.css"`, searching node_modules upwards from the
+ * importing file
+ */
+const resolvePackageImport = (
+  specifier: string,
+  fromFile: string
+): string | undefined => {
+  const parts = specifier.split("/")
+  const nameLength = specifier.startsWith("@") ? 2 : 1
+  const packageName = parts.slice(0, nameLength).join("/")
+  const subpath = parts.slice(nameLength).join("/")
+
+  let dir = dirname(fromFile)
+  while (true) {
+    const packageDir = join(dir, "node_modules", packageName)
+    if (existsSync(packageDir)) {
+      const candidates: string[] = []
+      if (subpath) {
+        candidates.push(
+          join(packageDir, subpath),
+          join(packageDir, `${subpath}.css`),
+          join(packageDir, subpath, "index.css")
+        )
+      } else {
+        // The `style` field (or export condition) points to the stylesheet
+        try {
+          const packageJson = JSON.parse(
+            readFileSync(join(packageDir, "package.json"), "utf8")
+          ) as { style?: string; exports?: Record<string, unknown> }
+          const rootExport = packageJson.exports?.["."] as
+            { style?: string } | undefined
+          const style = rootExport?.style ?? packageJson.style
+          if (typeof style === "string") {
+            candidates.push(join(packageDir, style))
+          }
+        } catch {}
+        candidates.push(join(packageDir, "index.css"))
+      }
+
+      return candidates.find(
+        (candidate) => candidate.endsWith(".css") && existsSync(candidate)
+      )
+    }
+
+    const parent = dirname(dir)
+    if (parent === dir) {
+      return undefined
+    }
+    dir = parent
+  }
+}
+
+/**
+ * Resolve an `@import` to a CSS file path. Returns undefined for imports that
+ * can't be followed: URLs and packages that aren't installed or have no
+ * stylesheet.
+ */
+const resolveImport = (
+  specifier: string,
+  fromFile: string
+): string | undefined => {
+  if (/^([a-z][\w+.-]*:|\/\/)/i.test(specifier)) {
+    return undefined
+  }
+  if (specifier.startsWith(".") || specifier.startsWith("/")) {
+    return resolve(dirname(fromFile), specifier)
+  }
+  return resolvePackageImport(specifier, fromFile)
+}
+
+/**
+ * Parse a CSS file and replace its `@import` statements with the nodes of the
+ * imported files, recursively. Files already in `files` are not read again,
+ * which also breaks import cycles.
+ */
+const loadCssTree = (cssPath: string, files: string[]): CssNode[] => {
+  files.push(cssPath)
+  const nodes = parseCss(readFileSync(cssPath, "utf8"), { from: cssPath })
+
+  return nodes.flatMap((node): CssNode[] => {
+    if (node.kind !== "at-rule" || node.name !== "import" || node.nodes) {
+      return [node]
+    }
+
+    const specifier = getImportSpecifier(node.params)
+    const importPath = specifier && resolveImport(specifier, cssPath)
+    if (!importPath || files.includes(importPath)) {
+      return [node]
+    }
+    if (!existsSync(importPath)) {
+      const { line, column } = node.position
+      throw new Error(
+        `CSS file not found: ${getRelativePath(
+          importPath
+        )} (imported at ${getRelativePath(cssPath)}:${line}:${column})`
+      )
+    }
+
+    return loadCssTree(importPath, files)
+  })
+}
+
+/**
+ * Read CSS file and return theme names and raw (unconverted) inline themes
+ *
+ * Relative and package `@import` statements are followed, and `files` lists
+ * every CSS file that was read. Themes record the file they came from in
+ * `source`.
+ */
+export const loadCssFile = (cssPath: string): CssFileData => {
+  const absolutePath = resolve(cssPath)
+  if (!existsSync(absolutePath)) {
+    throw new Error(`CSS file not found: ${cssPath}`)
+  }
+
+  const files: string[] = []
+  const nodes = loadCssTree(absolutePath, files)
+  const plugin = readPluginConfig(nodes)
+  const themeReferences = plugin.themes
+  const themeNames = themeReferences.map(({ name }) => name)
+  const inlineThemes = readInlineThemes(nodes)
+
+  return { themeNames, themeReferences, inlineThemes, plugin, files }
+}
+
+/**
+ * Check whether two inline theme definitions have the same values
+ */
+const isSameTheme = (a: CssThemeData, b: CssThemeData): boolean => {
+  const keys = Object.keys(a.styles)
+  return (
+    Boolean(a.default) === Boolean(b.default) &&
+    Boolean(a.prefersdark) === Boolean(b.prefersdark) &&
+    a.extends === b.extends &&
+    keys.length === Object.keys(b.styles).length &&
+    keys.every((key) => a.styles[key] === b.styles[key])
+  )
+}
+
+/**
+ * Read several CSS files and merge their themes
+ *
+ * Paths may be glob patterns (see `expandGlob`). Theme references are merged
+ * like duplicates within one file. An inline theme
+ * defined with different values in several files is reported in `conflicts`,
+ * and the first definition is used.
+ */
+export const loadCssFiles = (
+  cssPaths: string[]
+): CssFileData & { conflicts: ThemeConflict[] } => {
+  const paths = cssPaths.flatMap((pattern) => {
+    if (!hasGlobPattern(pattern)) {
+      return [pattern]
+    }
+    const matches = expandGlob(pattern)
+    if (matches.length === 0) {
+      throw new Error(`No CSS files match '${pattern}'`)
+    }
+    return matches
+  })
+
+  const references = new Map<string, CssThemeReference>()
+  const inlineThemes = new Map<string, CssThemeData>()
+  const conflicts = new Map<string, ThemeConflict>()
+  const files = new Set<string>()
+  const exclude = new Set<string>()
+  let allThemes = false
+
+  for (const path of paths) {
+    if (files.has(resolve(path))) {
+      // Already read, directly or through an @import
+      continue
+    }
+
+    const loaded = loadCssFile(path)
+    loaded.files.forEach((file) => files.add(file))
+    loaded.plugin.exclude.forEach((name) => exclude.add(name))
+    allThemes = allThemes || loaded.plugin.allThemes
+
+    for (const reference of loaded.themeReferences) {
+      const existing = references.get(reference.name)
+      references.set(reference.name, {
+        ...reference,
+        ...existing,
+        default: Boolean(existing?.default) || reference.default,
+        prefersdark: Boolean(existing?.prefersdark) || reference.prefersdark,
+      })
+    }
+
+    for (const theme of loaded.inlineThemes) {
+      const existing = inlineThemes.get(theme.name)
+      if (!existing) {
+        inlineThemes.set(theme.name, theme)
+        continue
+      }
+      if (existing.source === theme.source || isSameTheme(existing, theme)) {
+        continue
+      }
+
+      const conflict = conflicts.get(theme.name) ?? {
+        theme: theme.name,
+        files: [existing.source ?? ""],
+      }
+      conflict.files.push(theme.source ?? "")
+      conflicts.set(theme.name, conflict)
+    }
+  }
+
+  const themeReferences = [...references.values()].filter(
+    ({ name }) => !exclude.has(name)
+  )
+
+  return {
+    themeNames: themeReferences.map(({ name }) => name),
+    themeReferences,
+    inlineThemes: [...inlineThemes.values()],
+    plugin: {
+      themes: themeReferences,
+      allThemes,
+      exclude: [...exclude],
+    },
+    files: [...files],
+    conflicts: [...conflicts.values()],
+  }
+}
+
+/**
+ * Read and parse CSS file
+ */
+export const readCssFile = (
+  cssPath: string,
+  options: ConvertOptions = {}
+): { themeNames: string[]; inlineThemes: CssThemeData[] } => {
+  const { themeNames, inlineThemes } = loadCssFile(cssPath)
+
+  return {
+    themeNames,
+    inlineThemes: inlineThemes.map((theme) => ({
+      ...theme,
+      styles: convertStyles(theme.styles, options),
+    })),
+  }
+}
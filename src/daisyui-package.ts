@@ -0,0 +1,65 @@
+import { existsSync, readFileSync, readdirSync } from "fs"
+import { join } from "path"
+import type { DaisyuiPackage } from "./types.js"
+
+/**
+ * List the theme names shipped in a daisyui package directory
+ */
+export const listThemesInRoot = (root: string): string[] => {
+  const themes = new Set<string>()
+
+  // One directory per theme (daisyUI v5)
+  for (const dir of [join(root, "theme"), join(root, "dist", "theme")]) {
+    if (!existsSync(dir)) continue
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      if (
+        entry.isDirectory() &&
+        existsSync(join(dir, entry.name, "index.js"))
+      ) {
+        themes.add(entry.name)
+      }
+    }
+  }
+
+  // One file per theme
+  for (const dir of [
+    join(root, "src", "theming", "themes"),
+    join(root, "dist", "themes"),
+  ]) {
+    if (!existsSync(dir)) continue
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      if (
+        entry.isFile() &&
+        entry.name.endsWith(".js") &&
+        entry.name !== "index.js"
+      ) {
+        themes.add(entry.name.slice(0, -".js".length))
+      }
+    }
+  }
+
+  return [...themes].sort()
+}
+
+/**
+ * Read the version and themes of a daisyui package directory, or undefined if
+ * it ships no themes
+ */
+export const readDaisyuiPackage = (
+  root: string
+): DaisyuiPackage | undefined => {
+  const themes = listThemesInRoot(root)
+  if (themes.length === 0) {
+    return undefined
+  }
+
+  let version: string | undefined
+  try {
+    const packageJson = JSON.parse(
+      readFileSync(join(root, "package.json"), "utf8")
+    ) as { version?: string }
+    version = packageJson.version
+  } catch {}
+
+  return { root, version, themes }
+}
@@ -0,0 +1,160 @@
+import { existsSync, statSync } from "fs"
+import { createRequire } from "module"
+import { dirname, join } from "path"
+import { convertStyles, layerThemeStyles } from "./colors.js"
+import { readDaisyuiPackage } from "./daisyui-package.js"
+import type {
+  BaseStyles,
+  ConvertOptions,
+  DaisyuiPackage,
+  ThemeFunction,
+  ThemeModule,
+} from "./types.js"
+
+// Create require to resolve node_modules paths
+const require = createRequire(import.meta.url)
+
+/**
+ * Merge styles from several addBase calls, combining selector-wrapped objects
+ */
+const mergeBaseStyles = (bases: BaseStyles[]): BaseStyles => {
+  const merged: BaseStyles = {}
+
+  for (const base of bases) {
+    for (const [key, value] of Object.entries(base)) {
+      const existing = merged[key]
+      merged[key] =
+        typeof value === "object" && typeof existing === "object"
+          ? { ...existing, ...value }
+          : value
+    }
+  }
+
+  return merged
+}
+
+/**
+ * Locate installed daisyui packages, in lookup order
+ */
+export const findDaisyuiRoots = (): string[] => {
+  // Strategy 1: Direct path from current working directory
+  // Strategy 2: Check parent directory (in case we're in a subdirectory)
+  const roots: string[] = [
+    join(process.cwd(), "node_modules", "daisyui"),
+    join(process.cwd(), "..", "node_modules", "daisyui"),
+  ]
+
+  // Strategy 3: Try to resolve using require from cwd
+  try {
+    const cwdRequire = createRequire(join(process.cwd(), "package.json"))
+    roots.push(dirname(cwdRequire.resolve("daisyui/package.json")))
+  } catch {}
+
+  // Strategy 4: Try to resolve from script location
+  try {
+    roots.push(dirname(require.resolve("daisyui/package.json")))
+  } catch {}
+
+  // Remove duplicates and keep the roots that exist
+  return [...new Set(roots)].filter((root) => existsSync(root))
+}
+
+/**
+ * Possible module paths of a theme inside a daisyui package
+ */
+const getThemePaths = (root: string, themeName: string): string[] => [
+  join(root, "theme", themeName, "index.js"),
+  join(root, "dist", "theme", themeName, "index.js"),
+  join(root, "src", "theming", "themes", `${themeName}.js`),
+  join(root, "dist", "themes", `${themeName}.js`),
+]
+
+/**
+ * Find the first installed daisyui package that ships themes
+ */
+export const findDaisyuiPackage = (): DaisyuiPackage | undefined => {
+  for (const root of findDaisyuiRoots()) {
+    const daisyui = readDaisyuiPackage(root)
+    if (daisyui) {
+      return daisyui
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * List the theme names shipped in the installed daisyui package
+ */
+export const listInstalledThemes = (): string[] => {
+  return findDaisyuiPackage()?.themes ?? []
+}
+
+/**
+ * Import a theme from DaisyUI and return its raw (unconverted) styles
+ */
+export const loadThemeStyles = async (
+  themeName: string
+): Promise<BaseStyles> => {
+  const allPossiblePaths: string[] = findDaisyuiRoots().flatMap((root) =>
+    getThemePaths(root, themeName)
+  )
+
+  // Remove duplicates and check which paths exist
+  const uniquePaths = [...new Set(allPossiblePaths)]
+  const existingPaths = uniquePaths.filter((p) => existsSync(p))
+
+  // Try each path
+  for (const themePath of existingPaths) {
+    try {
+      // Use file:// protocol for absolute path imports. The modification
+      // time busts the module cache when daisyui is updated during --watch
+      const themeModule: ThemeModule = (await import(
+        `file://${themePath}?t=${statSync(themePath).mtimeMs}`
+      )) as ThemeModule
+      const theme: ThemeFunction = themeModule.default
+
+      if (typeof theme !== "function") {
+        continue
+      }
+
+      // Extract base styles by calling the theme function
+      const bases: BaseStyles[] = []
+
+      theme({
+        addBase: (base: BaseStyles): void => {
+          bases.push(base)
+        },
+      })
+
+      return mergeBaseStyles(bases)
+    } catch (error: unknown) {
+      // Try next path
+      continue
+    }
+  }
+
+  throw new Error(
+    `Could not import theme '${themeName}' from any known path in node_modules`
+  )
+}
+
+/**
+ * Import and extract theme data from DaisyUI
+ *
+ * Raw `overrides` (e.g. `{ "--color-primary": "#ff0000" }`) are layered on
+ * top of the theme before conversion.
+ */
+export const extractThemeData = async (
+  themeName: string,
+  options: ConvertOptions = {},
+  overrides?: BaseStyles
+): Promise<BaseStyles> => {
+  const styles = await loadThemeStyles(themeName)
+
+  // Convert colors to Hex and clean keys
+  return convertStyles(
+    overrides ? layerThemeStyles(styles, overrides) : styles,
+    options
+  )
+}
@@ -0,0 +1,106 @@
+import { converter, formatCss, interpolate, parse, wcagContrast } from "culori"
+import type { Color } from "culori"
+import type { BaseStyles } from "./types.js"
+
+/**
+ * Colors that get a `*-content` color derived when a theme omits it
+ */
+const CONTENT_COLOR_NAMES = [
+  "base",
+  "primary",
+  "secondary",
+  "accent",
+  "neutral",
+  "info",
+  "success",
+  "warning",
+  "error",
+]
+
+// Amounts used by daisyUI 4 to generate missing theme colors
+const CONTENT_MIX = 0.8
+const BASE_DARKEN = 0.07
+
+const toOklch = converter("oklch")
+
+/**
+ * Parse a raw theme value, skipping values culori can't read (e.g. `var()`)
+ */
+const parseColor = (
+  value: BaseStyles[string] | undefined
+): Color | undefined => {
+  if (typeof value !== "string") {
+    return undefined
+  }
+  try {
+    return parse(value)
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Mix a color with black or white in OKLCH
+ */
+const mixOklch = (
+  color: Color,
+  target: "black" | "white",
+  amount: number
+): string => {
+  return formatCss(toOklch(interpolate([color, target], "oklch")(amount)))
+}
+
+/**
+ * Generate a readable content color: the color mixed 80% towards white on dark
+ * colors and towards black on light ones
+ */
+const generateContentColor = (color: Color): string => {
+  const isDark = wcagContrast(color, "black") < wcagContrast(color, "white")
+  return mixOklch(color, isDark ? "white" : "black", CONTENT_MIX)
+}
+
+/**
+ * Fill in the colors daisyUI generates for a partial custom theme: `base-200`
+ * as a darker shade of `base-100`, `base-300` as a darker shade of `base-200`,
+ * and each `*-content` color from its background color
+ *
+ * Works on raw (unconverted) styles with `--color-*` variables. Returns the
+ * completed styles and the cleaned names of the derived colors; colors that
+ * are set, or whose source is missing or unparseable, are left alone.
+ */
+export const deriveThemeColors = (
+  styles: BaseStyles
+): { styles: BaseStyles; derived: string[] } => {
+  const completed: BaseStyles = { ...styles }
+  const derived: string[] = []
+
+  const derive = (name: string, create: () => string | undefined): void => {
+    const key = `--color-${name}`
+    if (completed[key] !== undefined) {
+      return
+    }
+    const value = create()
+    if (value !== undefined) {
+      completed[key] = value
+      derived.push(name)
+    }
+  }
+
+  const base100 = parseColor(completed["--color-base-100"])
+  derive("base-200", () => base100 && mixOklch(base100, "black", BASE_DARKEN))
+  derive("base-300", () => {
+    const base200 = parseColor(completed["--color-base-200"])
+    return base200 && mixOklch(base200, "black", BASE_DARKEN)
+  })
+
+  for (const name of CONTENT_COLOR_NAMES) {
+    derive(`${name}-content`, () => {
+      const color = parseColor(
+        completed[`--color-${name === "base" ? "base-100" : name}`]
+      )
+      return color && generateContentColor(color)
+    })
+  }
+
+  return { styles: completed, derived }
+}
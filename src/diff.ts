@@ -0,0 +1,91 @@
+import { differenceEuclidean } from "culori"
+import { isColorValue, parseColorValue } from "./colors.js"
+import type { BaseStyles, ThemeChange, ThemeDiff } from "./types.js"
+
+const deltaEOk = differenceEuclidean("oklab")
+
+/**
+ * Compare two style values, including channel objects
+ */
+const isSameValue = (
+  a: BaseStyles[string] | undefined,
+  b: BaseStyles[string] | undefined
+): boolean => {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Compute the perceptual distance between two color values as the Euclidean
+ * distance in OKLab (deltaE OK, where about 0.02 is just noticeable)
+ *
+ * Returns `undefined` unless both values are colors.
+ */
+export const getColorDistance = (
+  a: BaseStyles[string] | undefined,
+  b: BaseStyles[string] | undefined
+): number | undefined => {
+  if (
+    a === undefined ||
+    b === undefined ||
+    !isColorValue(a) ||
+    !isColorValue(b)
+  ) {
+    return undefined
+  }
+  const colorA = parseColorValue(a)
+  const colorB = parseColorValue(b)
+  if (!colorA || !colorB) {
+    return undefined
+  }
+  return Math.round(deltaEOk(colorA, colorB) * 10000) / 10000
+}
+
+/**
+ * Compare two sets of extracted themes
+ *
+ * Changed colors include their `deltaE`, so a format change (e.g. hex to
+ * rgb) shows up with a distance of 0.
+ */
+export const diffThemes = (
+  before: Record<string, BaseStyles>,
+  after: Record<string, BaseStyles>
+): ThemeDiff => {
+  const changes: ThemeChange[] = []
+
+  for (const theme of Object.keys(after)) {
+    if (!Object.hasOwn(before, theme)) {
+      continue
+    }
+
+    const keys = new Set([
+      ...Object.keys(before[theme]),
+      ...Object.keys(after[theme]),
+    ])
+    for (const key of keys) {
+      const previous = before[theme][key]
+      const next = after[theme][key]
+      if (isSameValue(previous, next)) {
+        continue
+      }
+
+      const deltaE = getColorDistance(previous, next)
+      changes.push({
+        theme,
+        key,
+        ...(previous !== undefined && { before: previous }),
+        ...(next !== undefined && { after: next }),
+        ...(deltaE !== undefined && { deltaE }),
+      })
+    }
+  }
+
+  return {
+    addedThemes: Object.keys(after).filter(
+      (theme) => !Object.hasOwn(before, theme)
+    ),
+    removedThemes: Object.keys(before).filter(
+      (theme) => !Object.hasOwn(after, theme)
+    ),
+    changes,
+  }
+}
@@ -0,0 +1,175 @@
+import { convertStyles, layerThemeStyles } from "./colors.js"
+import { loadCssFiles } from "./css.js"
+import { listInstalledThemes, loadThemeStyles } from "./daisyui.js"
+import { deriveThemeColors } from "./derive.js"
+import { applyOverrides } from "./overrides.js"
+import type {
+  BaseStyles,
+  ConvertOptions,
+  CssThemeData,
+  CssThemeReference,
+  ExtractOptions,
+  ExtractResult,
+  ThemeConflict,
+  ThemeError,
+  ThemeMetadata,
+} from "./types.js"
+import { getErrorMessage } from "./utils.js"
+
+/**
+ * Get the raw styles of an inline theme, layered over its `extends:` theme
+ */
+const loadInlineThemeStyles = async (
+  theme: CssThemeData
+): Promise<BaseStyles> => {
+  if (!theme.extends) {
+    return theme.styles
+  }
+
+  let base: BaseStyles
+  try {
+    base = await loadThemeStyles(theme.extends)
+  } catch (error: unknown) {
+    throw new Error(
+      `Can't extend '${theme.extends}': ${getErrorMessage(error)}`
+    )
+  }
+  return layerThemeStyles(base, theme.styles)
+}
+
+/**
+ * Extract themes from the installed daisyui package and, optionally, CSS files.
+ *
+ * Themes that fail to load are collected in `errors` instead of aborting the
+ * run. A missing or unreadable CSS file throws, as does `themes: all` without
+ * an installed daisyui package.
+ */
+export const extractThemes = async (
+  options: ExtractOptions = {}
+): Promise<ExtractResult> => {
+  const {
+    themes = [],
+    cssPath,
+    colorFormat,
+    alphaFormat,
+    gamutMap,
+    deriveColors = true,
+    overrides = [],
+  } = options
+
+  const result: Record<string, BaseStyles> = {}
+  const errors: ThemeError[] = []
+  const outOfGamut: Record<string, string[]> = {}
+  const derived: Record<string, string[]> = {}
+  let allThemes: string[] = [...themes]
+  const metadata: Record<string, ThemeMetadata> = {}
+  let cssThemeNames: string[] = []
+  let themeReferences: CssThemeReference[] = []
+  const inlineThemeMap = new Map<string, CssThemeData>()
+  let cssFiles: string[] = []
+  const themeFiles: Record<string, string> = {}
+  let conflicts: ThemeConflict[] = []
+
+  // Read CSS files if requested
+  const cssPaths = typeof cssPath === "string" ? [cssPath] : (cssPath ?? [])
+  if (cssPaths.length > 0) {
+    const loaded = loadCssFiles(cssPaths)
+    const { themeNames, inlineThemes, plugin } = loaded
+
+    // `themes: all` enables every installed theme except excluded ones
+    let installedThemes: string[] = []
+    if (plugin.allThemes) {
+      installedThemes = listInstalledThemes()
+      if (installedThemes.length === 0) {
+        throw new Error("themes: all found no installed daisyui package")
+      }
+      installedThemes = installedThemes.filter(
+        (name) => !plugin.exclude.includes(name)
+      )
+    }
+
+    cssThemeNames = [...new Set([...themeNames, ...installedThemes])]
+    themeReferences = loaded.themeReferences
+    allThemes = [...new Set([...allThemes, ...cssThemeNames])]
+
+    const inlineThemeNames = inlineThemes.map((t) => t.name)
+    allThemes = [...new Set([...allThemes, ...inlineThemeNames])]
+    inlineThemes.forEach((theme) => {
+      inlineThemeMap.set(theme.name, theme)
+    })
+
+    // Inline definitions take precedence over references
+    cssFiles = loaded.files
+    conflicts = loaded.conflicts
+    for (const { name, source } of [...themeReferences, ...inlineThemes]) {
+      if (source) {
+        themeFiles[name] = source
+      }
+    }
+  }
+
+  // Process each theme
+  for (const theme of allThemes) {
+    try {
+      // Check if we have inline theme data first
+      const inlineTheme = inlineThemeMap.get(theme)
+      let styles: BaseStyles = inlineTheme
+        ? await loadInlineThemeStyles(inlineTheme)
+        : await loadThemeStyles(theme)
+
+      // Partial inline themes get the colors daisyUI would generate
+      if (inlineTheme && deriveColors) {
+        const completed = deriveThemeColors(styles)
+        styles = completed.styles
+        if (completed.derived.length > 0) {
+          derived[theme] = completed.derived
+        }
+      }
+
+      const convertOptions: ConvertOptions = {
+        colorFormat,
+        alphaFormat,
+        gamutMap,
+        onOutOfGamut: (property: string): void => {
+          outOfGamut[theme] = [...(outOfGamut[theme] ?? []), property]
+        },
+      }
+      result[theme] = convertStyles(styles, convertOptions)
+
+      const reference = themeReferences.find(({ name }) => name === theme)
+      const colorScheme = result[theme]["color-scheme"]
+      metadata[theme] = {
+        default: inlineTheme?.default ?? reference?.default ?? false,
+        prefersdark:
+          inlineTheme?.prefersdark ?? reference?.prefersdark ?? false,
+        ...(typeof colorScheme === "string" && { colorScheme }),
+        source: inlineTheme ? "inline" : "node_modules",
+        ...(inlineTheme?.extends && { extends: inlineTheme.extends }),
+        ...(derived[theme] && { derived: derived[theme] }),
+      }
+    } catch (error: unknown) {
+      errors.push({ theme, error: getErrorMessage(error) })
+    }
+  }
+
+  // Overrides replace converted values, so they use the output color format
+  const overridden = applyOverrides(result, overrides, {
+    colorFormat,
+    alphaFormat,
+    gamutMap,
+  })
+
+  return {
+    themes: overridden.themes,
+    errors,
+    metadata,
+    outOfGamut,
+    derived,
+    cssThemeNames,
+    inlineThemeNames: [...inlineThemeMap.keys()],
+    cssFiles,
+    themeFiles,
+    conflicts,
+    unmatchedOverrides: overridden.unmatched,
+  }
+}
@@ -0,0 +1,127 @@
+import { existsSync, readdirSync, statSync } from "fs"
+import { join, parse, resolve, sep } from "path"
+
+const GLOB_CHARS_REGEX = /[*?[{]/
+
+/**
+ * Check whether a path contains glob syntax (`*`, `**`, `?`, `[...]`, `{a,b}`)
+ */
+export const hasGlobPattern = (pattern: string): boolean => {
+  return GLOB_CHARS_REGEX.test(pattern)
+}
+
+/**
+ * Convert a single path segment pattern to a regular expression
+ */
+const segmentToRegex = (segment: string): RegExp => {
+  let source = ""
+  let braceDepth = 0
+
+  for (let i = 0; i < segment.length; i++) {
+    const char = segment[i]
+    if (char === "*") {
+      source += "[^/\\\\]*"
+    } else if (char === "?") {
+      source += "[^/\\\\]"
+    } else if (char === "[") {
+      const end = segment.indexOf("]", i + 1)
+      if (end === -1) {
+        source += "\\["
+        continue
+      }
+      source += `[${segment.slice(i + 1, end).replace(/^!/, "^")}]`
+      i = end
+    } else if (char === "{") {
+      braceDepth++
+      source += "(?:"
+    } else if (char === "}" && braceDepth > 0) {
+      braceDepth--
+      source += ")"
+    } else if (char === "," && braceDepth > 0) {
+      source += "|"
+    } else {
+      source += char.replace(/[.+^$()|\\\]{}]/g, "\\$&")
+    }
+  }
+
+  return new RegExp(`^${source}$`)
+}
+
+/**
+ * List the files matching a glob pattern, sorted
+ *
+ * `**` matches any number of directories but doesn't descend into
+ * node_modules or hidden directories. Patterns are resolved from `cwd`.
+ */
+export const expandGlob = (
+  pattern: string,
+  cwd: string = process.cwd()
+): string[] => {
+  const absolute = resolve(cwd, pattern)
+  const { root } = parse(absolute)
+  const segments = absolute.slice(root.length).split(sep).filter(Boolean)
+  const results = new Set<string>()
+
+  const listDirectory = (dir: string): string[] => {
+    try {
+      return readdirSync(dir)
+    } catch {
+      return []
+    }
+  }
+
+  const isDirectory = (path: string): boolean => {
+    try {
+      return statSync(path).isDirectory()
+    } catch {
+      return false
+    }
+  }
+
+  const walk = (path: string, index: number): void => {
+    if (!existsSync(path)) {
+      return
+    }
+    if (index === segments.length) {
+      if (!isDirectory(path)) {
+        results.add(path)
+      }
+      return
+    }
+
+    const segment = segments[index]
+    if (segment === "**") {
+      walk(path, index + 1)
+      for (const entry of listDirectory(path)) {
+        const child = join(path, entry)
+        if (
+          !entry.startsWith(".") &&
+          entry !== "node_modules" &&
+          isDirectory(child)
+        ) {
+          walk(child, index)
+        }
+      }
+      return
+    }
+
+    if (!hasGlobPattern(segment)) {
+      walk(join(path, segment), index + 1)
+      return
+    }
+
+    // Hidden entries only match patterns that start with a dot
+    const regex = segmentToRegex(segment)
+    for (const entry of listDirectory(path)) {
+      if (
+        regex.test(entry) &&
+        (!entry.startsWith(".") || segment.startsWith("."))
+      ) {
+        walk(join(path, entry), index + 1)
+      }
+    }
+  }
+
+  walk(root, 0)
+  return [...results].sort()
+}
@@ -0,0 +1,57 @@
+import { existsSync, readFileSync } from "fs"
+import type { BaseStyles, ThemeMetadata } from "./types.js"
+import { getErrorMessage } from "./utils.js"
+
+/**
+ * Key of the optional metadata section in themes JSON files
+ */
+export const METADATA_KEY = "$metadata"
+
+/**
+ * Parse themes JSON in the extractor's own output format; `source` names the
+ * input in error messages
+ */
+export const parseThemesJson = (
+  json: string,
+  source: string
+): {
+  themes: Record<string, BaseStyles>
+  metadata?: Record<string, ThemeMetadata>
+} => {
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch (error: unknown) {
+    throw new Error(`Invalid JSON in ${source}: ${getErrorMessage(error)}`)
+  }
+
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value)
+
+  if (!isObject(data) || !Object.values(data).every(isObject)) {
+    throw new Error(
+      `Invalid themes file ${source}: expected an object of themes`
+    )
+  }
+
+  const { [METADATA_KEY]: metadata, ...themes } = data
+  return {
+    themes: themes as Record<string, BaseStyles>,
+    ...(metadata !== undefined && {
+      metadata: metadata as Record<string, ThemeMetadata>,
+    }),
+  }
+}
+
+/**
+ * Read a themes JSON file in the extractor's own output format
+ */
+export const readThemesJson = (
+  jsonPath: string
+): ReturnType<typeof parseThemesJson> => {
+  if (!existsSync(jsonPath)) {
+    throw new Error(`Themes file not found: ${jsonPath}`)
+  }
+
+  return parseThemesJson(readFileSync(jsonPath, "utf8"), jsonPath)
+}
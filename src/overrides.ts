@@ -0,0 +1,103 @@
+import { parse } from "culori"
+import { convertColor, DAISYUI_COLOR_NAMES, isColorValue } from "./colors.js"
+import type { BaseStyles, ConvertOptions, ThemeOverride } from "./types.js"
+
+/**
+ * Theme name matching every theme in an override
+ */
+export const ANY_THEME = "*"
+
+const OVERRIDE_REGEX = /^([^.=]+)\.([^=]+)=([\s\S]*)$/
+
+// Values that are meant as colors and must parse as one
+const COLOR_LIKE_REGEX =
+  /^(?:#|(?:rgba?|hsla?|hwb|lab|lch|oklab|oklch|color)\()/i
+
+/**
+ * Format an override the way it is written on the command line
+ */
+export const formatOverride = ({
+  theme,
+  key,
+  value,
+}: ThemeOverride): string => {
+  return `${theme}.${key}=${value}`
+}
+
+/**
+ * Parse a `theme.key=value` override, e.g. `forest.primary=#ff0066` or
+ * `*.radius-box=0`
+ *
+ * Throws when the text isn't in that form or a color doesn't parse.
+ */
+export const parseOverride = (text: string): ThemeOverride => {
+  const match = text.match(OVERRIDE_REGEX)
+  if (!match) {
+    throw new Error(`Invalid override '${text}' (expected theme.key=value)`)
+  }
+
+  const [theme, key, value] = match.slice(1).map((part) => part.trim())
+  if (value.length === 0) {
+    throw new Error(`Invalid override '${text}': missing value`)
+  }
+
+  if (DAISYUI_COLOR_NAMES.includes(key) || COLOR_LIKE_REGEX.test(value)) {
+    let color: ReturnType<typeof parse>
+    try {
+      color = parse(value)
+    } catch {
+      color = undefined
+    }
+    if (!color) {
+      throw new Error(`Invalid override '${text}': '${value}' is not a color`)
+    }
+  }
+
+  return { theme, key, value }
+}
+
+/**
+ * Replace properties of converted themes. Colors are converted with the same
+ * options as the themes.
+ *
+ * An override only applies to properties a theme already has, so a misspelled
+ * theme or key is returned in `unmatched` instead of adding a property.
+ */
+export const applyOverrides = (
+  themes: Record<string, BaseStyles>,
+  overrides: ThemeOverride[],
+  options: ConvertOptions = {}
+): { themes: Record<string, BaseStyles>; unmatched: ThemeOverride[] } => {
+  const result: Record<string, BaseStyles> = Object.fromEntries(
+    Object.entries(themes).map(([name, styles]) => [name, { ...styles }])
+  )
+  const unmatched: ThemeOverride[] = []
+
+  for (const override of overrides) {
+    const { theme, key, value } = override
+    const names =
+      theme === ANY_THEME
+        ? Object.keys(result)
+        : Object.hasOwn(result, theme)
+          ? [theme]
+          : []
+    let matched = false
+
+    for (const name of names) {
+      const current = result[name][key]
+      if (current === undefined) {
+        continue
+      }
+      result[name][key] = isColorValue(current)
+        ? convertColor(value, options)
+        : value
+      matched = true
+    }
+
+    if (!matched) {
+      unmatched.push(override)
+    }
+  }
+
+  return { themes: result, unmatched }
+}
@@ -0,0 +1,286 @@
+// Type definitions
+export type BaseStyles = Record<
+  string,
+  string | number | Record<string, string | number>
+>
+
+export type ThemeFunction = (config: {
+  addBase: (base: BaseStyles) => void
+  prefix?: string
+}) => void
+
+export interface ThemeModule {
+  default: ThemeFunction
+}
+
+export interface DaisyuiPackage {
+  /** Package directory */
+  root: string
+  version?: string
+  /** Theme names shipped in the package */
+  themes: string[]
+}
+
+export interface ThemeError {
+  theme: string
+  error: string
+}
+
+/** 1-based position of a node in the parsed CSS */
+export interface CssPosition {
+  line: number
+  column: number
+  /** File the node was read from, when known */
+  source?: string
+}
+
+export interface CssDeclaration {
+  kind: "declaration"
+  property: string
+  value: string
+  important: boolean
+  position: CssPosition
+}
+
+export interface CssRule {
+  kind: "rule"
+  selector: string
+  nodes: CssNode[]
+  position: CssPosition
+}
+
+export interface CssAtRule {
+  kind: "at-rule"
+  name: string
+  params: string
+  /** `null` for statements without a block, e.g. `@import "tailwindcss";` */
+  nodes: CssNode[] | null
+  position: CssPosition
+}
+
+export interface CssComment {
+  kind: "comment"
+  value: string
+  position: CssPosition
+}
+
+export type CssNode = CssDeclaration | CssRule | CssAtRule | CssComment
+
+export interface CssThemeData {
+  name: string
+  styles: BaseStyles
+  /** `default:` declared in the @plugin "daisyui/theme" block */
+  default?: boolean
+  /** `prefersdark:` declared in the @plugin "daisyui/theme" block */
+  prefersdark?: boolean
+  /** CSS file the block was read from */
+  source?: string
+  /** Built-in theme the block inherits from (`extends:`) */
+  extends?: string
+}
+
+export interface CssThemeReference {
+  name: string
+  /** Listed with the --default flag */
+  default: boolean
+  /** Listed with the --prefersdark flag */
+  prefersdark: boolean
+  /** CSS file the theme was first listed in */
+  source?: string
+}
+
+export interface DaisyuiPluginConfig {
+  /** Themes listed by name, without `all` / `false` and excluded themes */
+  themes: CssThemeReference[]
+  /** `themes: all` enables every theme of the installed daisyui package */
+  allThemes: boolean
+  /** Names listed in `exclude:` */
+  exclude: string[]
+}
+
+/** Themes read from a CSS file and the files it imports */
+export interface CssFileData {
+  themeNames: string[]
+  themeReferences: CssThemeReference[]
+  /** Raw (unconverted) inline themes */
+  inlineThemes: CssThemeData[]
+  plugin: DaisyuiPluginConfig
+  /** Every CSS file that was read */
+  files: string[]
+}
+
+/** An inline theme defined with different values in several CSS files */
+export interface ThemeConflict {
+  theme: string
+  /** Files defining the theme; the definition in the first one is used */
+  files: string[]
+}
+
+export type ThemeSource = "node_modules" | "inline"
+
+export interface ThemeMetadata {
+  default: boolean
+  prefersdark: boolean
+  colorScheme?: string
+  source: ThemeSource
+  /** Built-in theme an inline theme inherits from */
+  extends?: string
+  /** Colors generated because the inline theme didn't set them */
+  derived?: string[]
+}
+
+export type ColorFormat =
+  "hex" | "hex8" | "rgb" | "rgba" | "hsl" | "oklch" | "channels"
+
+/** Numeric sRGB channels (0-255) with alpha (0-1) */
+export type ColorChannels = Record<"r" | "g" | "b" | "a", number>
+
+export interface ConvertOptions {
+  /** Output color format (default: "hex") */
+  colorFormat?: ColorFormat
+  /** Output for "hex" colors with alpha below 1 (default: "hex8") */
+  alphaFormat?: "hex8" | "rgba"
+  /** Map out-of-sRGB colors into gamut by reducing OKLCH chroma (CSS Color 4) */
+  gamutMap?: boolean
+  /** Called for each color that lies outside the sRGB gamut */
+  onOutOfGamut?: (property: string, value: string) => void
+}
+
+/** A `--set theme.key=value` override of a converted theme property */
+export interface ThemeOverride {
+  /** Theme name, or `*` for every theme */
+  theme: string
+  /** Cleaned property name, e.g. `primary` */
+  key: string
+  value: string
+}
+
+export interface ExtractOptions extends Omit<ConvertOptions, "onOutOfGamut"> {
+  /** Theme names to load from the installed daisyui package */
+  themes?: string[]
+  /**
+   * CSS file(s) to read theme names and inline themes from; glob patterns are
+   * expanded
+   */
+  cssPath?: string | string[]
+  /**
+   * Generate missing `*-content`, `base-200` and `base-300` colors of inline
+   * themes as daisyUI does (default: true)
+   */
+  deriveColors?: boolean
+  /** Property overrides applied after conversion */
+  overrides?: ThemeOverride[]
+}
+
+export interface ExtractResult {
+  /** Extracted themes keyed by theme name */
+  themes: Record<string, BaseStyles>
+  /** Themes that could not be extracted */
+  errors: ThemeError[]
+  /** Default/prefersdark flags, color scheme and source, keyed by theme name */
+  metadata: Record<string, ThemeMetadata>
+  /** Properties whose source color lies outside sRGB, keyed by theme name */
+  outOfGamut: Record<string, string[]>
+  /** Colors generated for inline themes that omit them, keyed by theme name */
+  derived: Record<string, string[]>
+  /** Theme names found in @plugin "daisyui" blocks */
+  cssThemeNames: string[]
+  /** Theme names defined in @plugin "daisyui/theme" blocks */
+  inlineThemeNames: string[]
+  /** CSS files read, including the ones reached through @import */
+  cssFiles: string[]
+  /** CSS file each inline or referenced theme was found in, keyed by theme name */
+  themeFiles: Record<string, string>
+  /** Inline themes defined differently in several CSS files */
+  conflicts: ThemeConflict[]
+  /** Overrides that matched no property of an extracted theme */
+  unmatchedOverrides: ThemeOverride[]
+}
+
+/** A property added, removed or changed between two extractions */
+export interface ThemeChange {
+  theme: string
+  key: string
+  /** Missing for added properties */
+  before?: BaseStyles[string]
+  /** Missing for removed properties */
+  after?: BaseStyles[string]
+  /** Perceptual distance (deltaE OK) of a changed color, 0 to about 1 */
+  deltaE?: number
+}
+
+export interface ThemeDiff {
+  addedThemes: string[]
+  removedThemes: string[]
+  /** Property changes of themes present on both sides */
+  changes: ThemeChange[]
+}
+
+/** Contrast of a background/content color pair of a theme */
+export interface ContrastResult {
+  theme: string
+  /** Background color key, e.g. `primary` */
+  background: string
+  /** Content color key, e.g. `primary-content` */
+  foreground: string
+  /** WCAG 2.x contrast ratio, 1 to 21 */
+  wcag: number
+  /** APCA lightness contrast (Lc), negative for light text on dark */
+  apca: number
+  /** Meets the thresholds the audit was run with */
+  passes: boolean
+}
+
+/** Minimum contrast for the audit; unset thresholds aren't checked */
+export interface ContrastThresholds {
+  /** Minimum WCAG 2.x contrast ratio, e.g. 4.5 for AA body text */
+  wcag?: number
+  /** Minimum absolute APCA Lc, e.g. 60 */
+  apca?: number
+}
+
+export type OutputFormat =
+  "json" | "css" | "dtcg" | "ts" | "daisyui4" | "plugin"
+
+export interface WriterOptions {
+  /** Theme also applied to `:root` */
+  defaultTheme?: string
+  /** Theme applied to `:root` when `prefers-color-scheme: dark` */
+  prefersDarkTheme?: string
+  /** Theme metadata to include; also picks the default/prefersdark themes */
+  metadata?: Record<string, ThemeMetadata>
+}
+
+/** An output file written from the extracted themes */
+export interface OutputTarget {
+  output: string
+  /** Defaults to `json` */
+  format?: OutputFormat
+  defaultTheme?: string
+  prefersDark?: string
+  /** Include theme metadata in the output */
+  metadata?: boolean
+}
+
+/**
+ * Contents of `daisyui-theme-extractor.config.{json,js,mjs,ts}` or the
+ * `daisyui-theme-extractor` key of package.json
+ *
+ * Top-level output options describe a single output, or act as defaults for
+ * the named targets in `outputs`.
+ */
+export interface ExtractorConfig
+  extends Omit<ExtractOptions, "overrides">, Partial<OutputTarget> {
+  /** Read themes from `cssPath` */
+  readCss?: boolean
+  /** Minimum WCAG 2.x contrast ratio for `--audit` */
+  minContrast?: number
+  /** Minimum absolute APCA Lc for `--audit` */
+  minApca?: number
+  outputs?: Record<string, OutputTarget>
+}
+
+export type ThemeWriter = (
+  themes: Record<string, BaseStyles>,
+  options: WriterOptions
+) => string
@@ -0,0 +1,56 @@
+import { mkdirSync, writeFileSync } from "fs"
+import { dirname, relative } from "path"
+
+/**
+ * Type guard to check if error is an Error instance
+ */
+export const isError = (error: unknown): error is Error => {
+  return error instanceof Error
+}
+
+/**
+ * Type guard to check if error is a NodeJS.ErrnoException
+ */
+export const isErrnoException = (
+  error: unknown
+): error is NodeJS.ErrnoException => {
+  return isError(error) && "code" in error
+}
+
+/**
+ * Get error message from unknown error type
+ */
+export const getErrorMessage = (error: unknown): string => {
+  if (isError(error)) {
+    return error.message
+  }
+  return String(error)
+}
+
+/**
+ * Convert absolute path to relative path for cleaner logging
+ */
+export const getRelativePath = (absolutePath: string): string => {
+  try {
+    const relativePath = relative(process.cwd(), absolutePath)
+    // If the relative path starts with '../', it means the file is outside the cwd
+    // In that case, return the original path
+    return relativePath.startsWith("../") ? absolutePath : relativePath
+  } catch {
+    return absolutePath
+  }
+}
+
+/**
+ * Write a file, creating its directory if it doesn't exist
+ */
+export const writeOutputFile = (outputPath: string, content: string): void => {
+  try {
+    mkdirSync(dirname(outputPath), { recursive: true })
+  } catch (error: unknown) {
+    if (!isErrnoException(error) || error.code !== "EEXIST") {
+      throw error
+    }
+  }
+  writeFileSync(outputPath, content, "utf8")
+}
@@ -0,0 +1,51 @@
+import { type FSWatcher, watch } from "fs"
+import { basename, dirname, join } from "path"
+
+/**
+ * Watch files for changes and call `onChange` once per burst of events
+ *
+ * The parent directories are watched rather than the files, so files that
+ * editors replace on save keep being watched. Returns a function that stops
+ * watching.
+ */
+export const watchFiles = (
+  files: string[],
+  onChange: (file: string) => void,
+  delay: number = 100
+): (() => void) => {
+  const directories = new Map<string, Set<string>>()
+  for (const file of files) {
+    const dir = dirname(file)
+    directories.set(
+      dir,
+      (directories.get(dir) ?? new Set()).add(basename(file))
+    )
+  }
+
+  let timer: NodeJS.Timeout | undefined
+  const watchers: FSWatcher[] = []
+
+  for (const [dir, names] of directories) {
+    try {
+      watchers.push(
+        watch(dir, (_event, filename): void => {
+          if (!filename || !names.has(filename.toString())) {
+            return
+          }
+          clearTimeout(timer)
+          timer = setTimeout(
+            () => onChange(join(dir, filename.toString())),
+            delay
+          )
+        })
+      )
+    } catch {
+      // Directory removed since it was read
+    }
+  }
+
+  return (): void => {
+    clearTimeout(timer)
+    watchers.forEach((watcher) => watcher.close())
+  }
+}
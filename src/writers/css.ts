@@ -0,0 +1,54 @@
+import { restorePropertyName, toCssValue } from "../colors.js"
+import type { BaseStyles, ThemeWriter } from "../types.js"
+import { resolveFlaggedThemes } from "./metadata.js"
+
+/**
+ * Render the declarations of a theme as CSS lines
+ */
+const renderDeclarations = (styles: BaseStyles, indent: string): string[] => {
+  return Object.entries(styles).map(
+    ([key, value]) =>
+      `${indent}${restorePropertyName(key, value)}: ${toCssValue(value)};`
+  )
+}
+
+/**
+ * Render themes as CSS custom properties
+ *
+ * Each theme becomes a `[data-theme="name"]` block. The default theme is also
+ * applied to `:root`, and the prefersdark theme to `:root` inside a
+ * `prefers-color-scheme: dark` media query.
+ */
+export const renderCss: ThemeWriter = (themes, options) => {
+  const { defaultTheme, prefersDarkTheme } = resolveFlaggedThemes(options)
+  const blocks: string[] = []
+
+  for (const [name, styles] of Object.entries(themes)) {
+    const selectors = [`[data-theme="${name}"]`]
+    if (name === defaultTheme) {
+      selectors.unshift(":root")
+    }
+
+    blocks.push(
+      [
+        `${selectors.join(", ")} {`,
+        ...renderDeclarations(styles, "  "),
+        "}",
+      ].join("\n")
+    )
+  }
+
+  if (prefersDarkTheme && themes[prefersDarkTheme]) {
+    blocks.push(
+      [
+        "@media (prefers-color-scheme: dark) {",
+        "  :root {",
+        ...renderDeclarations(themes[prefersDarkTheme], "    "),
+        "  }",
+        "}",
+      ].join("\n")
+    )
+  }
+
+  return `${blocks.join("\n\n")}\n`
+}
@@ -0,0 +1,65 @@
+import { DAISYUI_COLOR_NAMES, toCssValue } from "../colors.js"
+import type { BaseStyles, ThemeWriter } from "../types.js"
+import { resolveFlaggedThemes } from "./metadata.js"
+
+/**
+ * daisyUI v5 variables (cleaned names) and their daisyUI v4 equivalents
+ */
+const V4_VARIABLES: Record<string, string[]> = {
+  "radius-box": ["--rounded-box"],
+  "radius-field": ["--rounded-btn", "--tab-radius"],
+  "radius-selector": ["--rounded-badge"],
+  border: ["--border-btn", "--tab-border"],
+}
+
+/**
+ * Convert a theme to a daisyUI v4 theme object
+ *
+ * Variables without a v4 equivalent (size-*, depth, noise) are dropped.
+ */
+const toV4Theme = (styles: BaseStyles): Record<string, string> => {
+  const theme: Record<string, string> = {}
+
+  for (const [key, value] of Object.entries(styles)) {
+    if (key === "color-scheme" || DAISYUI_COLOR_NAMES.includes(key)) {
+      theme[key] = toCssValue(value)
+    } else {
+      for (const variable of V4_VARIABLES[key] ?? []) {
+        theme[variable] = toCssValue(value)
+      }
+    }
+  }
+
+  return theme
+}
+
+/**
+ * Render themes as a daisyUI v4 config for Tailwind v3
+ *
+ * The CommonJS module exports `{ themes: [...] }`, ready to be used as the
+ * `daisyui` key of `tailwind.config.js`. The default theme is listed first,
+ * as daisyUI v4 uses the first theme as default, and the prefersdark theme
+ * becomes `darkTheme`.
+ */
+export const renderDaisyui4: ThemeWriter = (themes, options) => {
+  const { defaultTheme, prefersDarkTheme } = resolveFlaggedThemes(options)
+  const darkTheme = prefersDarkTheme
+    ? `\n  darkTheme: ${JSON.stringify(prefersDarkTheme)},`
+    : ""
+  const entries = Object.entries(themes)
+  const v4Themes = [
+    ...entries.filter(([name]) => name === defaultTheme),
+    ...entries.filter(([name]) => name !== defaultTheme),
+  ].map(([name, styles]) => ({
+    [name]: toV4Theme(styles),
+  }))
+
+  return `// Generated by daisyui-theme-extractor. Do not edit.
+// Usage in tailwind.config.js: daisyui: require("./<this file>")
+
+/** @type {{ themes: Record<string, Record<string, string>>[], darkTheme?: string }} */
+module.exports = {
+  themes: ${JSON.stringify(v4Themes, null, 2).replace(/\n/g, "\n  ")},${darkTheme}
+}
+`
+}
@@ -0,0 +1,87 @@
+import { convertToHex, isColorValue, toCssValue } from "../colors.js"
+import type { BaseStyles, ThemeWriter } from "../types.js"
+
+type DtcgType = "color" | "dimension" | "number"
+
+interface DtcgToken {
+  $type?: DtcgType
+  $value: string | number
+}
+
+const DIMENSION_REGEX = /^-?\d*\.?\d+(?:px|rem|em)$/
+const NUMBER_REGEX = /^-?\d*\.?\d+$/
+
+/**
+ * Infer the DTCG token type from a cleaned property name and its value
+ */
+const inferTokenType = (
+  key: string,
+  value: BaseStyles[string]
+): DtcgType | undefined => {
+  if (isColorValue(value)) {
+    return "color"
+  }
+  if (
+    key.startsWith("radius-") ||
+    key.startsWith("size-") ||
+    key === "border" ||
+    DIMENSION_REGEX.test(String(value))
+  ) {
+    return "dimension"
+  }
+  if (
+    key === "depth" ||
+    key === "noise" ||
+    typeof value === "number" ||
+    NUMBER_REGEX.test(String(value))
+  ) {
+    return "number"
+  }
+  return undefined
+}
+
+/**
+ * Convert a style value to a DTCG token
+ *
+ * Colors are written as hex (8-digit when translucent), numbers as numbers.
+ */
+const toToken = (key: string, value: BaseStyles[string]): DtcgToken => {
+  const type = inferTokenType(key, value)
+
+  switch (type) {
+    case "color":
+      return { $type: type, $value: convertToHex(toCssValue(value)) }
+    case "number":
+      return { $type: type, $value: Number(value) }
+    case "dimension":
+      return { $type: type, $value: String(value) }
+    default:
+      return { $value: toCssValue(value) }
+  }
+}
+
+/**
+ * Render themes as W3C Design Tokens Community Group (DTCG) JSON
+ *
+ * Each theme is a token group. `color-scheme` has no token type and is kept
+ * in the group's `$extensions`.
+ */
+export const renderDtcg: ThemeWriter = (themes) => {
+  const groups: Record<string, Record<string, unknown>> = {}
+
+  for (const [name, styles] of Object.entries(themes)) {
+    const group: Record<string, unknown> = {}
+
+    for (const [key, value] of Object.entries(styles)) {
+      if (key === "color-scheme") {
+        group.$extensions = { "com.daisyui": { "color-scheme": value } }
+        continue
+      }
+      group[key] = toToken(key, value)
+    }
+
+    groups[name] = group
+  }
+
+  return JSON.stringify(groups, null, 2)
+}
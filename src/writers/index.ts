@@ -0,0 +1,46 @@
+import type {
+  BaseStyles,
+  OutputFormat,
+  ThemeWriter,
+  WriterOptions,
+} from "../types.js"
+import { renderCss } from "./css.js"
+import { renderDaisyui4 } from "./daisyui4.js"
+import { renderDtcg } from "./dtcg.js"
+import { renderJson } from "./json.js"
+import { renderPlugin } from "./plugin.js"
+import { renderTypeScript } from "./typescript.js"
+
+const writers: Record<OutputFormat, ThemeWriter> = {
+  json: renderJson,
+  css: renderCss,
+  dtcg: renderDtcg,
+  ts: renderTypeScript,
+  daisyui4: renderDaisyui4,
+  plugin: renderPlugin,
+}
+
+/**
+ * Output formats accepted by `renderThemes`
+ */
+export const OUTPUT_FORMATS = Object.keys(writers) as OutputFormat[]
+
+/**
+ * Render extracted themes in the requested output format
+ */
+export const renderThemes = (
+  themes: Record<string, BaseStyles>,
+  format: OutputFormat = "json",
+  options: WriterOptions = {}
+): string => {
+  return writers[format](themes, options)
+}
+
+export {
+  renderCss,
+  renderDaisyui4,
+  renderDtcg,
+  renderJson,
+  renderPlugin,
+  renderTypeScript,
+}
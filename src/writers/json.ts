@@ -0,0 +1,14 @@
+import { METADATA_KEY } from "../json.js"
+import type { ThemeWriter } from "../types.js"
+
+/**
+ * Render themes as JSON
+ *
+ * Theme metadata, when given, is written under the `$metadata` key.
+ */
+export const renderJson: ThemeWriter = (themes, options) => {
+  const output = options.metadata
+    ? { ...themes, [METADATA_KEY]: options.metadata }
+    : themes
+  return JSON.stringify(output, null, 2)
+}
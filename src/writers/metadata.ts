@@ -0,0 +1,19 @@
+import type { WriterOptions } from "../types.js"
+
+/**
+ * Resolve the default and prefersdark themes, falling back to the flags in
+ * the theme metadata when they are not given explicitly
+ */
+export const resolveFlaggedThemes = (
+  options: WriterOptions
+): { defaultTheme?: string; prefersDarkTheme?: string } => {
+  const entries = Object.entries(options.metadata ?? {})
+
+  return {
+    defaultTheme:
+      options.defaultTheme ?? entries.find(([, meta]) => meta.default)?.[0],
+    prefersDarkTheme:
+      options.prefersDarkTheme ??
+      entries.find(([, meta]) => meta.prefersdark)?.[0],
+  }
+}
@@ -0,0 +1,35 @@
+import { restorePropertyName, toCssValue } from "../colors.js"
+import type { ThemeWriter } from "../types.js"
+import { resolveFlaggedThemes } from "./metadata.js"
+
+/**
+ * Render themes as daisyUI v5 `@plugin "daisyui/theme"` blocks
+ *
+ * This is the inverse of `extractInlineThemesFromCss`: cleaned keys are
+ * restored to `--color-*` / `--radius-*` variables.
+ */
+export const renderPlugin: ThemeWriter = (themes, options) => {
+  const { defaultTheme, prefersDarkTheme } = resolveFlaggedThemes(options)
+
+  const blocks = Object.entries(themes).map(([name, styles]) => {
+    const lines = [
+      `  name: ${JSON.stringify(name)};`,
+      `  default: ${name === defaultTheme};`,
+      `  prefersdark: ${name === prefersDarkTheme};`,
+    ]
+    if (styles["color-scheme"] !== undefined) {
+      lines.push(`  color-scheme: ${toCssValue(styles["color-scheme"])};`)
+    }
+
+    for (const [key, value] of Object.entries(styles)) {
+      if (key === "color-scheme") {
+        continue
+      }
+      lines.push(`  ${restorePropertyName(key, value)}: ${toCssValue(value)};`)
+    }
+
+    return [`@plugin "daisyui/theme" {`, ...lines, "}"].join("\n")
+  })
+
+  return `${blocks.join("\n\n")}\n`
+}
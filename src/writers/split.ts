@@ -0,0 +1,106 @@
+import { dirname, join, normalize, relative, sep } from "path"
+import type { BaseStyles, OutputFormat, WriterOptions } from "../types.js"
+import { renderThemes } from "./index.js"
+
+/**
+ * Placeholder for the theme name in per-theme output paths
+ */
+export const NAME_PLACEHOLDER = "{name}"
+
+/**
+ * Check whether an output path is a per-theme template like
+ * `themes/{name}.json`
+ */
+export const isOutputTemplate = (outputPath: string): boolean => {
+  return outputPath.includes(NAME_PLACEHOLDER)
+}
+
+/**
+ * Render the index file listing the per-theme files, as `@import`s for CSS,
+ * lazy imports for TypeScript and a name to path map otherwise
+ */
+const renderIndex = (
+  files: Record<string, string>,
+  format: OutputFormat
+): { extension: string; content: string } => {
+  const entries = Object.entries(files)
+
+  switch (format) {
+    case "css":
+    case "plugin":
+      return {
+        extension: ".css",
+        content: `${entries
+          .map(([, file]) => `@import ${JSON.stringify(file)};`)
+          .join("\n")}\n`,
+      }
+    case "ts":
+      return {
+        extension: ".ts",
+        content: [
+          `export const themeNames = ${JSON.stringify(
+            Object.keys(files)
+          )} as const`,
+          "",
+          "export type ThemeName = (typeof themeNames)[number]",
+          "",
+          "export const loadTheme = {",
+          ...entries.map(
+            ([name, file]) =>
+              `  ${JSON.stringify(name)}: () => import(${JSON.stringify(
+                file.replace(/\.ts$/, ".js")
+              )}),`
+          ),
+          "} satisfies Record<ThemeName, () => Promise<unknown>>",
+          "",
+        ].join("\n"),
+      }
+    default:
+      return { extension: ".json", content: JSON.stringify(files, null, 2) }
+  }
+}
+
+/**
+ * Render one file per theme from a path template containing `{name}`, plus
+ * an `index` file next to them that lists the generated files
+ *
+ * Returns the file contents keyed by path. Each theme file is rendered as if
+ * it were the only extracted theme.
+ */
+export const renderSplitThemes = (
+  themes: Record<string, BaseStyles>,
+  template: string,
+  format: OutputFormat = "json",
+  options: WriterOptions = {}
+): Record<string, string> => {
+  // Directory holding the index: the part of the template before `{name}`
+  const indexDir = dirname(
+    `${template.slice(0, template.indexOf(NAME_PLACEHOLDER))}x`
+  )
+  const output: Record<string, string> = {}
+  const files: Record<string, string> = {}
+
+  for (const [name, styles] of Object.entries(themes)) {
+    const path = normalize(template.replaceAll(NAME_PLACEHOLDER, name))
+    const themeMetadata = options.metadata?.[name]
+
+    output[path] = renderThemes({ [name]: styles }, format, {
+      ...options,
+      metadata: themeMetadata && { [name]: themeMetadata },
+    })
+
+    const file = relative(indexDir, path).split(sep).join("/")
+    files[name] = file.startsWith(".") ? file : `./${file}`
+  }
+
+  const { extension, content } = renderIndex(files, format)
+  const indexPath = join(indexDir, `index${extension}`)
+  if (Object.hasOwn(output, indexPath)) {
+    throw new Error(
+      `Index file ${indexPath} would overwrite a theme file (template ${template})`
+    )
+  }
+  output[indexPath] = content
+
+  return output
+}
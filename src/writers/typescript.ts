@@ -0,0 +1,67 @@
+import { DAISYUI_COLOR_NAMES, isColorValue } from "../colors.js"
+import type { BaseStyles, ThemeWriter } from "../types.js"
+
+/**
+ * Color keys present in every theme
+ */
+const getSharedColorKeys = (themes: Record<string, BaseStyles>): string[] => {
+  const styles = Object.values(themes)
+  if (styles.length === 0) {
+    return []
+  }
+
+  return Object.entries(styles[0])
+    .filter(
+      ([key, value]) => DAISYUI_COLOR_NAMES.includes(key) || isColorValue(value)
+    )
+    .map(([key]) => key)
+    .filter((key) => styles.every((theme) => key in theme))
+}
+
+/**
+ * Render a list of names as a string literal union type
+ */
+const toUnion = (names: string[]): string => {
+  if (names.length === 0) {
+    return " never"
+  }
+  return names.map((name) => `\n  | ${JSON.stringify(name)}`).join("")
+}
+
+/**
+ * Render themes as a TypeScript module with literal types
+ *
+ * The module exports `themes` (as const), the `ThemeName` and `ThemeColorKey`
+ * unions and a `getTheme` helper, so unknown theme or color names fail to
+ * compile. Theme metadata, when given, is exported as `themeMetadata`.
+ */
+export const renderTypeScript: ThemeWriter = (themes, options) => {
+  const themeNames = Object.keys(themes)
+  const colorKeys = getSharedColorKeys(themes)
+  const metadata = options.metadata
+    ? `\nexport const themeMetadata = ${JSON.stringify(
+        options.metadata,
+        null,
+        2
+      )} as const\n`
+    : ""
+
+  return `// Generated by daisyui-theme-extractor. Do not edit.
+
+export const themes = ${JSON.stringify(themes, null, 2)} as const
+
+export type Themes = typeof themes
+
+export type ThemeName =${toUnion(themeNames)}
+
+export type ThemeColorKey =${toUnion(colorKeys)}
+
+export const themeNames: readonly ThemeName[] = [${themeNames
+    .map((name) => JSON.stringify(name))
+    .join(", ")}]
+
+export const getTheme = <T extends ThemeName>(name: T): Themes[T] => {
+  return themes[name]
+}
+${metadata}`
+}
@@ -0,0 +1,81 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+} from "@jest/globals"
+import { runAudit } from "../src/commands/audit"
+
+// chalk is ESM only; every style returns the text unchanged
+jest.mock("chalk", () => {
+  const style: unknown = new Proxy((text: unknown) => String(text), {
+    get: () => style,
+  })
+  return { __esModule: true, default: style }
+})
+
+describe("runAudit", () => {
+  let logs: string[]
+  let errors: string[]
+
+  const themes = {
+    dim: {
+      "base-100": "#ffffff",
+      "base-content": "#888888",
+      error: "#ffffff",
+      "error-content": "#000000",
+    },
+  }
+
+  beforeEach(() => {
+    logs = []
+    errors = []
+    jest.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
+      logs.push(args.join(" "))
+    })
+    jest.spyOn(console, "error").mockImplementation((...args: unknown[]) => {
+      errors.push(args.join(" "))
+    })
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it("should pass without thresholds", () => {
+    expect(runAudit({ themes, thresholds: {} })).toBe(true)
+    expect(logs[0]).toBe("🔍 Contrast audit (no thresholds):")
+    expect(logs).toContain("\n   dim")
+    expect(logs).toContainEqual(
+      expect.stringMatching(/^ {3}✓ base-100 \/ base-content {3}3\.54:1 {2}Lc/)
+    )
+    expect(logs[logs.length - 1]).toBe("✓ 2 pair(s) checked")
+    expect(errors).toEqual([])
+  })
+
+  it("should fail below --min-contrast", () => {
+    expect(runAudit({ themes, thresholds: { wcag: 4.5 } })).toBe(false)
+    expect(logs).toContainEqual(
+      expect.stringMatching(/^ {3}✗ base-100 \/ base-content /)
+    )
+    expect(logs).toContainEqual(
+      expect.stringMatching(/^ {3}✓ error \/ error-content {4}21\.00:1/)
+    )
+    expect(errors).toEqual(["✗ 1 of 2 pair(s) below WCAG ≥ 4.5:1"])
+  })
+
+  it("should compare --min-apca with the absolute Lc", () => {
+    expect(runAudit({ themes, thresholds: { apca: 60 } })).toBe(true)
+    expect(runAudit({ themes, thresholds: { wcag: 3, apca: 75 } })).toBe(false)
+    expect(errors).toEqual(["✗ 1 of 2 pair(s) below WCAG ≥ 3:1, APCA ≥ Lc 75"])
+  })
+
+  it("should pass when no color/content pairs are found", () => {
+    expect(
+      runAudit({ themes: { bare: { primary: "#ff0066" } }, thresholds: {} })
+    ).toBe(true)
+    expect(logs).toContain("   No color/content pairs found.")
+  })
+})
@@ -0,0 +1,97 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+} from "@jest/globals"
+import { mkdtempSync, rmSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { runCheck } from "../src/commands/check"
+import { renderJson } from "../src/writers/json"
+
+// chalk is ESM only; every style returns the text unchanged
+jest.mock("chalk", () => {
+  const style: unknown = new Proxy((text: unknown) => String(text), {
+    get: () => style,
+  })
+  return { __esModule: true, default: style }
+})
+
+describe("runCheck", () => {
+  let dir: string
+  let output: string
+  let logs: string[]
+
+  const themes = { light: { primary: "#422ad5", accent: "#00d3bb" } }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "theme-extractor-check-"))
+    output = join(dir, "themes.json")
+    logs = []
+    const record = (...args: unknown[]): void => {
+      logs.push(args.join(" "))
+    }
+    jest.spyOn(console, "log").mockImplementation(record)
+    jest.spyOn(console, "error").mockImplementation(record)
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it("should fail when the output file is missing", () => {
+    expect(
+      runCheck({ output, content: renderJson(themes, {}), format: "json" })
+    ).toBe(false)
+    expect(logs[0]).toMatch(/themes\.json does not exist$/)
+  })
+
+  it("should pass when the output file is up to date", () => {
+    const content = renderJson(themes, {})
+    writeFileSync(output, content)
+
+    expect(runCheck({ output, content, format: "json" })).toBe(true)
+    expect(logs).toHaveLength(1)
+    expect(logs[0]).toMatch(/themes\.json is up to date$/)
+  })
+
+  it("should list the changed properties of stale JSON output", () => {
+    writeFileSync(output, renderJson(themes, {}))
+    const content = renderJson(
+      { light: { primary: "#ff0066" }, dark: { primary: "#605dff" } },
+      {}
+    )
+
+    expect(runCheck({ output, content, format: "json" })).toBe(false)
+    expect(logs[0]).toMatch(/themes\.json is out of date$/)
+    expect(logs).toContain("   + dark")
+    expect(logs).toContainEqual(
+      expect.stringMatching(/^ {3}~ light\.primary: #422ad5 → #ff0066 \(ΔE/)
+    )
+    expect(logs).toContain("   - light.accent")
+    expect(logs.join("\n")).not.toContain("First difference")
+  })
+
+  it("should report the first different line for other formats", () => {
+    writeFileSync(output, "a\nb\nc\n")
+
+    expect(runCheck({ output, content: "a\nb\nd\n", format: "css" })).toBe(
+      false
+    )
+    expect(logs).toContain("   First difference at line 3")
+    expect(logs[logs.length - 1]).toBe("Run without --check to update it.")
+  })
+
+  it("should fall back to the line when the JSON isn't a themes file", () => {
+    writeFileSync(output, "[1, 2]\n")
+
+    expect(runCheck({ output, content: "[1, 3]\n", format: "json" })).toBe(
+      false
+    )
+    expect(logs).toContain("   First difference at line 1")
+  })
+})
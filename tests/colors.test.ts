@@ -0,0 +1,204 @@
+import { describe, expect, it } from "@jest/globals"
+import { parse } from "culori"
+import {
+  convertColor,
+  convertStyles,
+  convertToHex,
+  isInGamut,
+  layerThemeStyles,
+} from "../src/colors"
+
+describe("Color conversion", () => {
+  describe("convertToHex", () => {
+    it("should convert opaque colors to 6-digit hex", () => {
+      expect(convertToHex("rgb(255 0 0)")).toBe("#ff0000")
+      expect(convertToHex("oklch(100% 0 0)")).toBe("#ffffff")
+    })
+
+    it("should preserve alpha as 8-digit hex", () => {
+      expect(convertToHex("rgb(255 0 0 / 0.4)")).toBe("#ff000066")
+      expect(convertToHex("oklch(100% 0 0 / 50%)")).toBe("#ffffff80")
+    })
+
+    it("should write rgba() for translucent colors when asked", () => {
+      expect(convertToHex("rgb(255 0 0 / 0.4)", { alphaFormat: "rgba" })).toBe(
+        "rgba(255, 0, 0, 0.4)"
+      )
+    })
+
+    it("should keep opaque colors as hex when rgba is asked", () => {
+      expect(convertToHex("rgb(255 0 0)", { alphaFormat: "rgba" })).toBe(
+        "#ff0000"
+      )
+    })
+
+    it("should return the original string for invalid colors", () => {
+      expect(convertToHex("oklch(nope)")).toBe("oklch(nope)")
+    })
+  })
+
+  describe("convertColor", () => {
+    it("should default to hex", () => {
+      expect(convertColor("rgb(255 0 0)")).toBe("#ff0000")
+    })
+
+    it("should convert to each string format", () => {
+      const red = "oklch(62.8% 0.25768 29.234)"
+
+      expect(convertColor(red, { colorFormat: "hex8" })).toBe("#ff0000ff")
+      expect(convertColor(red, { colorFormat: "rgb" })).toBe("rgb(255, 0, 0)")
+      expect(convertColor(red, { colorFormat: "rgba" })).toBe(
+        "rgba(255, 0, 0, 1)"
+      )
+      expect(convertColor("rgb(255 0 0)", { colorFormat: "hsl" })).toBe(
+        "hsl(0, 100%, 50%)"
+      )
+      expect(convertColor(red, { colorFormat: "oklch" })).toBe(
+        "oklch(0.628 0.258 29.234)"
+      )
+    })
+
+    it("should clip out-of-gamut colors in hsl output like hex", () => {
+      const green = "oklch(0.7 0.3 145)"
+
+      expect(convertColor(green, { colorFormat: "hex" })).toBe("#00c800")
+      // Unclamped, the out-of-range channels gave hsl(127, 100%, 20.8%)
+      expect(convertColor(green, { colorFormat: "hsl" })).toBe(
+        "hsl(120, 100%, 39.26%)"
+      )
+    })
+
+    it("should round oklch output", () => {
+      expect(
+        convertColor("oklch(0.8488292928 0.36852779768 145.644955586)", {
+          colorFormat: "oklch",
+        })
+      ).toBe("oklch(0.849 0.369 145.645)")
+      expect(convertColor("#ffffff80", { colorFormat: "oklch" })).toBe(
+        "oklch(1 0 none / 0.502)"
+      )
+    })
+
+    it("should keep alpha in rgba and channels output", () => {
+      expect(convertColor("#ff000080", { colorFormat: "rgba" })).toBe(
+        "rgba(255, 0, 0, 0.502)"
+      )
+      expect(
+        convertColor("rgb(0 0 255 / 0.5)", { colorFormat: "channels" })
+      ).toEqual({ r: 0, g: 0, b: 255, a: 0.5 })
+    })
+
+    it("should return the original string for invalid colors", () => {
+      expect(convertColor("not-a-color", { colorFormat: "rgb" })).toBe(
+        "not-a-color"
+      )
+    })
+  })
+
+  describe("convertStyles", () => {
+    it("should leave hex literals as written for hex output", () => {
+      expect(convertStyles({ "--color-info": "#17A2B8" })).toEqual({
+        info: "#17A2B8",
+      })
+    })
+
+    it("should convert hex literals for other formats", () => {
+      const result = convertStyles(
+        {
+          "--color-info": "#17A2B8",
+          "--color-primary": "oklch(100% 0 0)",
+          "--radius-box": "1rem",
+        },
+        { colorFormat: "channels" }
+      )
+
+      expect(result).toEqual({
+        info: { r: 23, g: 162, b: 184, a: 1 },
+        primary: { r: 255, g: 255, b: 255, a: 1 },
+        "radius-box": "1rem",
+      })
+    })
+
+    it("should convert rgba() and hsla() values", () => {
+      expect(
+        convertStyles({
+          "--color-a": "rgba(255, 0, 0, 1)",
+          "--color-b": "hsla(0, 100%, 50%, 1)",
+        })
+      ).toEqual({ a: "#ff0000", b: "#ff0000" })
+    })
+
+    it("should preserve alpha in nested and top-level colors", () => {
+      const result = convertStyles({
+        "--color-base-300": "oklch(0% 0 0 / 0.25)",
+        "[data-theme=forest]": { "--color-primary": "rgb(0 0 255 / 0.5)" },
+      })
+
+      expect(result).toEqual({
+        "base-300": "#00000040",
+        primary: "#0000ff80",
+      })
+    })
+  })
+
+  describe("layerThemeStyles", () => {
+    it("should flatten the base theme and apply the overrides", () => {
+      expect(
+        layerThemeStyles(
+          {
+            "[data-theme=forest]": {
+              "color-scheme": "dark",
+              "--color-primary": "oklch(68% 0.16 144)",
+              "--radius-box": "1rem",
+            },
+          },
+          { "--color-primary": "#ff5500", "--color-brand": "#123456" }
+        )
+      ).toEqual({
+        "color-scheme": "dark",
+        "--color-primary": "#ff5500",
+        "--radius-box": "1rem",
+        "--color-brand": "#123456",
+      })
+    })
+  })
+
+  describe("Gamut mapping", () => {
+    // Saturated green well outside sRGB
+    const outOfGamut = "oklch(70% 0.35 150)"
+
+    it("should detect colors outside sRGB", () => {
+      expect(isInGamut(parse(outOfGamut)!)).toBe(false)
+      expect(isInGamut(parse("oklch(50% 0.1 150)")!)).toBe(true)
+      expect(isInGamut(parse("#ffffff")!)).toBe(true)
+    })
+
+    it("should clip by default and map when asked", () => {
+      expect(convertToHex(outOfGamut)).toBe("#00d100")
+      expect(convertToHex(outOfGamut, { gamutMap: true })).toBe("#00c248")
+      expect(
+        convertColor(outOfGamut, { colorFormat: "rgb", gamutMap: true })
+      ).toBe("rgb(0, 194, 72)")
+    })
+
+    it("should leave in-gamut colors unchanged when mapping", () => {
+      const color = "oklch(50% 0.1 150)"
+      expect(convertToHex(color, { gamutMap: true })).toBe(convertToHex(color))
+    })
+
+    it("should report out-of-gamut properties", () => {
+      const reported: string[] = []
+
+      convertStyles(
+        {
+          "--color-primary": outOfGamut,
+          "--color-base-100": "oklch(100% 0 0)",
+          "--radius-box": "1rem",
+        },
+        { onOutOfGamut: (property: string) => reported.push(property) }
+      )
+
+      expect(reported).toEqual(["primary"])
+    })
+  })
+})
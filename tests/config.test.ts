@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals"
+import { mkdtempSync, rmSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { loadConfig, validateConfig } from "../src/config"
+
+describe("Config", () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "theme-extractor-config-"))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  describe("validateConfig", () => {
+    it("should accept a config with named outputs", () => {
+      const config = {
+        readCss: true,
+        cssPath: ["apps/*/index.css"],
+        colorFormat: "oklch",
+        outputs: {
+          server: { output: "server/themes.json" },
+          emails: { output: "emails/themes.css", format: "css" },
+        },
+      }
+
+      expect(validateConfig(config, "test")).toEqual(config)
+    })
+
+    it("should reject unknown options and wrong value types", () => {
+      expect(() => validateConfig({ theme: ["dark"] }, "test")).toThrow(
+        "Invalid config in test: unknown option 'theme'"
+      )
+      expect(() => validateConfig({ themes: "dark" }, "test")).toThrow(
+        "'themes' must be an array of strings"
+      )
+      expect(() => validateConfig({ format: "xml" }, "test")).toThrow(
+        "'format' must be one of json, css"
+      )
+      expect(() =>
+        validateConfig({ outputs: { emails: { format: "css" } } }, "test")
+      ).toThrow("'outputs.emails' must be an object with an 'output' path")
+      expect(() => validateConfig({ minContrast: "4.5" }, "test")).toThrow(
+        "'minContrast' must be a positive number"
+      )
+      expect(() =>
+        validateConfig(
+          { outputs: { emails: { output: "a.css", readCss: true } } },
+          "test"
+        )
+      ).toThrow("unknown option 'outputs.emails.readCss'")
+      expect(() => validateConfig([], "test")).toThrow("expected an object")
+    })
+  })
+
+  describe("loadConfig", () => {
+    it("should return undefined without a config", async () => {
+      expect(await loadConfig(undefined, dir)).toBeUndefined()
+    })
+
+    it("should load a JSON config and resolve its paths", async () => {
+      const path = join(dir, "daisyui-theme-extractor.config.json")
+      writeFileSync(
+        path,
+        JSON.stringify({
+          cssPath: "src/index.css",
+          outputs: { server: { output: "build/themes.json" } },
+        })
+      )
+
+      expect(await loadConfig(undefined, dir)).toEqual({
+        path,
+        config: {
+          cssPath: join(dir, "src/index.css"),
+          outputs: { server: { output: join(dir, "build/themes.json") } },
+        },
+      })
+    })
+
+    it("should read the package.json key", async () => {
+      writeFileSync(
+        join(dir, "package.json"),
+        JSON.stringify({
+          name: "app",
+          "daisyui-theme-extractor": {
+            themes: ["dark"],
+            output: "themes.json",
+          },
+        })
+      )
+
+      expect(await loadConfig(undefined, dir)).toEqual({
+        path: join(dir, "package.json"),
+        config: { themes: ["dark"], output: join(dir, "themes.json") },
+      })
+    })
+
+    it("should prefer a config file over package.json", async () => {
+      writeFileSync(
+        join(dir, "package.json"),
+        JSON.stringify({ "daisyui-theme-extractor": { themes: ["light"] } })
+      )
+      writeFileSync(
+        join(dir, "daisyui-theme-extractor.config.json"),
+        JSON.stringify({ themes: ["dark"] })
+      )
+
+      expect((await loadConfig(undefined, dir))?.config.themes).toEqual([
+        "dark",
+      ])
+    })
+
+    it("should throw for a missing or invalid config file", async () => {
+      await expect(loadConfig("missing.json", dir)).rejects.toThrow(
+        "Config file not found: missing.json"
+      )
+
+      writeFileSync(join(dir, "broken.json"), "{")
+      await expect(loadConfig("broken.json", dir)).rejects.toThrow(
+        "Invalid JSON in"
+      )
+    })
+  })
+})
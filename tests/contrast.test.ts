@@ -0,0 +1,91 @@
+import { describe, expect, it } from "@jest/globals"
+import { parse } from "culori"
+import type { Color } from "culori"
+import {
+  auditContrast,
+  getApcaContrast,
+  getWcagContrast,
+} from "../src/contrast"
+
+const color = (value: string): Color => parse(value) as Color
+
+describe("getWcagContrast", () => {
+  it("should compute the WCAG 2.x contrast ratio", () => {
+    expect(getWcagContrast(color("#000"), color("#fff"))).toBeCloseTo(21, 5)
+    expect(getWcagContrast(color("#fff"), color("#fff"))).toBeCloseTo(1, 5)
+    expect(getWcagContrast(color("#777"), color("#fff"))).toBeCloseTo(4.48, 2)
+  })
+})
+
+describe("getApcaContrast", () => {
+  it("should match the APCA reference values", () => {
+    expect(getApcaContrast(color("#000"), color("#fff"))).toBeCloseTo(106.04, 1)
+    expect(getApcaContrast(color("#fff"), color("#000"))).toBeCloseTo(
+      -107.88,
+      1
+    )
+    expect(getApcaContrast(color("#888"), color("#fff"))).toBeCloseTo(63.06, 1)
+    expect(getApcaContrast(color("#fff"), color("#888"))).toBeCloseTo(-68.54, 1)
+  })
+
+  it("should return 0 for nearly identical colors", () => {
+    expect(getApcaContrast(color("#777"), color("#787878"))).toBe(0)
+  })
+})
+
+describe("auditContrast", () => {
+  it("should check each color/content pair present in a theme", () => {
+    const results = auditContrast({
+      light: {
+        "base-100": "#ffffff",
+        "base-content": "#000000",
+        primary: "oklch(45% 0.24 277)",
+        "primary-content": { r: 255, g: 255, b: 255, a: 1 },
+        secondary: "#ff00ff",
+        radius: "1rem",
+      },
+    })
+
+    expect(
+      results.map(({ background, foreground }) => [background, foreground])
+    ).toEqual([
+      ["base-100", "base-content"],
+      ["primary", "primary-content"],
+    ])
+    expect(results[0]).toMatchObject({ theme: "light", passes: true })
+    expect(results[0].wcag).toBeCloseTo(21, 5)
+    expect(results[1].apca).toBeLessThan(0)
+  })
+
+  it("should flag pairs below the thresholds", () => {
+    const themes = {
+      dim: {
+        "base-100": "#ffffff",
+        "base-content": "#888888",
+        error: "#ffffff",
+        "error-content": "#000000",
+      },
+    }
+
+    expect(
+      auditContrast(themes, { wcag: 4.5 }).map(({ passes }) => passes)
+    ).toEqual([false, true])
+    expect(
+      auditContrast(themes, { apca: 60 }).map(({ passes }) => passes)
+    ).toEqual([true, true])
+    expect(
+      auditContrast(themes, { apca: 75 }).map(({ passes }) => passes)
+    ).toEqual([false, true])
+  })
+
+  it("should blend translucent content colors over the background", () => {
+    const [result] = auditContrast({
+      faded: {
+        "base-100": "#ffffff",
+        "base-content": "rgb(0 0 0 / 0)",
+      },
+    })
+
+    expect(result.wcag).toBeCloseTo(1, 5)
+  })
+})
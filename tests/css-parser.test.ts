@@ -0,0 +1,116 @@
+import { describe, expect, it } from "@jest/globals"
+import { parseCss, walkCss } from "../src/css-parser"
+import type { CssAtRule, CssDeclaration, CssNode } from "../src/types"
+
+/**
+ * Collect the declarations of a parsed stylesheet
+ */
+const declarations = (nodes: CssNode[]): CssDeclaration[] => {
+  const found: CssDeclaration[] = []
+  walkCss(nodes, (node) => {
+    if (node.kind === "declaration") {
+      found.push(node)
+    }
+  })
+  return found
+}
+
+describe("CSS parser", () => {
+  it("should parse at-rules with and without blocks", () => {
+    const nodes = parseCss(`
+      @import "tailwindcss";
+      @plugin "daisyui" {
+        themes: light --default, dark;
+      }
+    `)
+
+    expect(nodes).toHaveLength(2)
+    expect(nodes[0]).toMatchObject({
+      kind: "at-rule",
+      name: "import",
+      params: '"tailwindcss"',
+      nodes: null,
+    })
+    expect(nodes[1]).toMatchObject({
+      kind: "at-rule",
+      name: "plugin",
+      params: '"daisyui"',
+      nodes: [
+        {
+          kind: "declaration",
+          property: "themes",
+          value: "light --default, dark",
+        },
+      ],
+    })
+  })
+
+  it("should record line and column positions", () => {
+    const nodes = parseCss(`@plugin "daisyui/theme" {\n  name: "mytheme";\n}`)
+    const plugin = nodes[0] as CssAtRule
+
+    expect(plugin.position).toEqual({ line: 1, column: 1 })
+    expect(plugin.nodes?.[0].position).toEqual({ line: 2, column: 3 })
+  })
+
+  it("should split multiple declarations on one line", () => {
+    const result = declarations(parseCss(".a { color: red; --size: 1rem; }"))
+
+    expect(result.map(({ property, value }) => [property, value])).toEqual([
+      ["color", "red"],
+      ["--size", "1rem"],
+    ])
+  })
+
+  it("should join multi-line values", () => {
+    const [declaration] = declarations(
+      parseCss(".a {\n  --color-primary: oklch(\n    50% 0.2\n    200\n  );\n}")
+    )
+
+    expect(declaration.value).toBe("oklch( 50% 0.2 200 )")
+  })
+
+  it("should ignore braces and semicolons in comments and strings", () => {
+    const result = declarations(
+      parseCss(`
+        .a {
+          /* } ; */ content: "};"; /* trailing } */
+          background: url(data:image/png;base64,AAAA);
+        }
+      `)
+    )
+
+    expect(result.map(({ property, value }) => [property, value])).toEqual([
+      ["content", '"};"'],
+      ["background", "url(data:image/png;base64,AAAA)"],
+    ])
+  })
+
+  it("should keep comments as nodes", () => {
+    const nodes = parseCss("/* themes */\n.a { color: red }")
+
+    expect(nodes[0]).toEqual({
+      kind: "comment",
+      value: "themes",
+      position: { line: 1, column: 1 },
+    })
+  })
+
+  it("should detect !important", () => {
+    const [declaration] = declarations(parseCss(".a { color: red !important }"))
+
+    expect(declaration).toMatchObject({ value: "red", important: true })
+  })
+
+  it("should report the position of syntax errors", () => {
+    expect(() => parseCss('.a {\n  content: "open;\n}')).toThrow(
+      "Unclosed string at line 2, column 12"
+    )
+    expect(() => parseCss("/* open", { from: "src/index.css" })).toThrow(
+      "Unclosed comment at src/index.css:1:1"
+    )
+    expect(() => parseCss(".a {}\n}")).toThrow(
+      "Unexpected '}' at line 2, column 1"
+    )
+  })
+})
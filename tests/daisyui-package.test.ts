@@ -0,0 +1,82 @@
+import { afterAll, beforeAll, describe, expect, it } from "@jest/globals"
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { listThemesInRoot, readDaisyuiPackage } from "../src/daisyui-package"
+
+describe("daisyui package", () => {
+  let root: string
+
+  const createFiles = (dir: string, files: Record<string, string>): void => {
+    for (const [file, content] of Object.entries(files)) {
+      mkdirSync(join(dir, file, ".."), { recursive: true })
+      writeFileSync(join(dir, file), content)
+    }
+  }
+
+  beforeAll(() => {
+    root = mkdtempSync(join(tmpdir(), "theme-extractor-daisyui-"))
+    createFiles(join(root, "v5"), {
+      "package.json": JSON.stringify({ version: "5.0.0" }),
+      "theme/light/index.js": "",
+      "theme/dark/index.js": "",
+      "theme/light.css": "",
+      "theme/broken/object.js": "",
+      "dist/theme/cyberpunk/index.js": "",
+    })
+    createFiles(join(root, "v4"), {
+      "package.json": JSON.stringify({ version: "4.12.0" }),
+      "src/theming/themes/cupcake.js": "",
+      "src/theming/themes/index.js": "",
+      "src/theming/themes/README.md": "",
+      "dist/themes/retro.js": "",
+      "dist/themes/cupcake.js": "",
+      "dist/themes/index.js": "",
+    })
+    createFiles(join(root, "empty"), {
+      "package.json": JSON.stringify({ version: "5.0.0" }),
+      "theme/index.js": "",
+    })
+    createFiles(join(root, "unversioned"), {
+      "theme/light/index.js": "",
+    })
+  })
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  it("should list theme directories with an index.js", () => {
+    expect(listThemesInRoot(join(root, "v5"))).toEqual([
+      "cyberpunk",
+      "dark",
+      "light",
+    ])
+  })
+
+  it("should list theme files without index.js, once per name", () => {
+    expect(listThemesInRoot(join(root, "v4"))).toEqual(["cupcake", "retro"])
+  })
+
+  it("should return an empty list without themes", () => {
+    expect(listThemesInRoot(join(root, "empty"))).toEqual([])
+    expect(listThemesInRoot(join(root, "missing"))).toEqual([])
+  })
+
+  it("should read the version and themes of a package", () => {
+    expect(readDaisyuiPackage(join(root, "v4"))).toEqual({
+      root: join(root, "v4"),
+      version: "4.12.0",
+      themes: ["cupcake", "retro"],
+    })
+    expect(readDaisyuiPackage(join(root, "unversioned"))).toEqual({
+      root: join(root, "unversioned"),
+      version: undefined,
+      themes: ["light"],
+    })
+  })
+
+  it("should skip packages without themes", () => {
+    expect(readDaisyuiPackage(join(root, "empty"))).toBeUndefined()
+  })
+})
@@ -0,0 +1,133 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+} from "@jest/globals"
+import { converter, parse } from "culori"
+import { mkdtempSync, rmSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { deriveThemeColors } from "../src/derive"
+import { extractThemes } from "../src/extract"
+
+jest.mock("../src/daisyui", () => ({
+  listInstalledThemes: jest.fn(),
+  loadThemeStyles: jest.fn(),
+}))
+
+const toOklch = converter("oklch")
+
+const lightness = (value: unknown): number => toOklch(parse(String(value))!).l
+
+describe("deriveThemeColors", () => {
+  it("should fill in missing content colors and base shades", () => {
+    const { styles, derived } = deriveThemeColors({
+      "color-scheme": "light",
+      "--color-base-100": "oklch(98% 0.01 240)",
+      "--color-primary": "oklch(35% 0.15 260)",
+      "--color-accent": "#ffd500",
+      "--radius-box": "1rem",
+    })
+
+    expect(derived).toEqual([
+      "base-200",
+      "base-300",
+      "base-content",
+      "primary-content",
+      "accent-content",
+    ])
+    expect(styles["--radius-box"]).toBe("1rem")
+
+    // Base shades get darker, content colors contrast with their background
+    expect(lightness(styles["--color-base-200"])).toBeLessThan(0.98)
+    expect(lightness(styles["--color-base-300"])).toBeLessThan(
+      lightness(styles["--color-base-200"])
+    )
+    expect(lightness(styles["--color-base-content"])).toBeLessThan(0.3)
+    expect(lightness(styles["--color-primary-content"])).toBeGreaterThan(0.8)
+    expect(lightness(styles["--color-accent-content"])).toBeLessThan(0.3)
+  })
+
+  it("should derive base-300 from the derived base-200", () => {
+    const { styles } = deriveThemeColors({
+      "--color-base-100": "oklch(98% 0.01 240)",
+    })
+    const { styles: chained } = deriveThemeColors({
+      "--color-base-100": "oklch(98% 0.01 240)",
+      "--color-base-200": styles["--color-base-200"],
+    })
+
+    expect(styles["--color-base-300"]).toBe(chained["--color-base-300"])
+  })
+
+  it("should keep colors that are set", () => {
+    const { styles, derived } = deriveThemeColors({
+      "--color-base-100": "#ffffff",
+      "--color-base-200": "#eeeeee",
+      "--color-base-content": "#123456",
+      "--color-primary": "#ff0000",
+      "--color-primary-content": "#ffffff",
+    })
+
+    expect(derived).toEqual(["base-300"])
+    expect(styles["--color-base-200"]).toBe("#eeeeee")
+    expect(styles["--color-base-content"]).toBe("#123456")
+    expect(styles["--color-primary-content"]).toBe("#ffffff")
+    // base-300 is a shade of the given base-200
+    expect(lightness(styles["--color-base-300"])).toBeLessThan(
+      lightness("#eeeeee")
+    )
+  })
+
+  it("should skip colors without a parseable source", () => {
+    const { styles, derived } = deriveThemeColors({
+      "--color-primary": "var(--brand)",
+    })
+
+    expect(derived).toEqual([])
+    expect(styles).toEqual({ "--color-primary": "var(--brand)" })
+  })
+})
+
+describe("extractThemes deriveColors", () => {
+  let dir: string
+  let cssPath: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "theme-extractor-derive-"))
+    cssPath = join(dir, "index.css")
+    writeFileSync(
+      cssPath,
+      `@plugin "daisyui/theme" {
+        name: partial;
+        --color-primary: #ffd500;
+      }`
+    )
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it("should derive missing colors of inline themes by default", async () => {
+    const result = await extractThemes({ cssPath })
+
+    expect(Object.keys(result.themes.partial)).toEqual([
+      "primary",
+      "primary-content",
+    ])
+    expect(result.derived).toEqual({ partial: ["primary-content"] })
+    expect(result.metadata.partial.derived).toEqual(["primary-content"])
+  })
+
+  it("should keep inline themes as written with deriveColors: false", async () => {
+    const result = await extractThemes({ cssPath, deriveColors: false })
+
+    expect(result.themes).toEqual({ partial: { primary: "#ffd500" } })
+    expect(result.derived).toEqual({})
+    expect(result.metadata.partial).not.toHaveProperty("derived")
+  })
+})
@@ -0,0 +1,207 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+} from "@jest/globals"
+import { mkdtempSync, rmSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { runDiff } from "../src/commands/diff"
+import { findDaisyuiPackage } from "../src/daisyui"
+import { extractThemes } from "../src/extract"
+import { renderJson } from "../src/writers/json"
+
+// chalk is ESM only; every style returns the text unchanged
+jest.mock("chalk", () => {
+  const style: unknown = new Proxy((text: unknown) => String(text), {
+    get: () => style,
+  })
+  return { __esModule: true, default: style }
+})
+jest.mock("../src/daisyui", () => ({
+  findDaisyuiPackage: jest.fn(),
+}))
+jest.mock("../src/extract", () => ({
+  extractThemes: jest.fn(),
+}))
+
+describe("runDiff", () => {
+  const mockFindDaisyuiPackage = findDaisyuiPackage as jest.MockedFunction<
+    typeof findDaisyuiPackage
+  >
+  const mockExtractThemes = extractThemes as jest.MockedFunction<
+    typeof extractThemes
+  >
+  let dir: string
+  let before: string
+  let logs: string[]
+  let errors: string[]
+  let exit: jest.SpiedFunction<typeof process.exit>
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "theme-extractor-diff-"))
+    before = join(dir, "before.json")
+    writeFileSync(
+      before,
+      renderJson(
+        {
+          light: { primary: "#422ad5", accent: "#00d3bb" },
+          brand: { primary: "#ff0066" },
+        },
+        {
+          metadata: {
+            light: {
+              default: true,
+              prefersdark: false,
+              source: "node_modules",
+            },
+            brand: { default: false, prefersdark: false, source: "inline" },
+          },
+        }
+      )
+    )
+    logs = []
+    errors = []
+    jest.spyOn(process, "cwd").mockReturnValue(dir)
+    jest.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
+      logs.push(args.join(" "))
+    })
+    jest.spyOn(console, "error").mockImplementation((...args: unknown[]) => {
+      errors.push(args.join(" "))
+    })
+    exit = jest
+      .spyOn(process, "exit")
+      .mockImplementation((() => undefined) as never)
+    mockFindDaisyuiPackage.mockReturnValue({
+      root: join(dir, "node_modules", "daisyui"),
+      version: "5.0.0",
+      themes: ["dark", "light", "retro"],
+    })
+    mockExtractThemes.mockResolvedValue({
+      themes: {
+        dark: { primary: "#605dff" },
+        light: { primary: "#422ad5", accent: "#00d3bb" },
+      },
+      errors: [{ theme: "retro", error: "Could not import theme 'retro'" }],
+      metadata: {},
+      outOfGamut: {},
+      derived: {},
+      cssThemeNames: [],
+      inlineThemeNames: [],
+      cssFiles: [],
+      themeFiles: {},
+      conflicts: [],
+      unmatchedOverrides: [],
+    })
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+    mockExtractThemes.mockReset()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it("should compare two themes files", async () => {
+    const after = join(dir, "after.json")
+    writeFileSync(
+      after,
+      renderJson({ light: { primary: "#ff0066" }, dark: {} }, {})
+    )
+
+    await runDiff([before, after])
+
+    expect(exit).not.toHaveBeenCalled()
+    expect(mockExtractThemes).not.toHaveBeenCalled()
+    expect(logs[0]).toBe("🔍 Comparing before.json → after.json\n")
+    expect(logs).toContain("   + dark")
+    expect(logs).toContain("   - brand")
+    expect(logs).toContainEqual(
+      expect.stringMatching(/^ {3}~ light\.primary: #422ad5 → #ff0066 \(ΔE/)
+    )
+    expect(logs[logs.length - 1]).toMatch(
+      /^1 theme\(s\) added, 1 theme\(s\) removed, 1 key\(s\) removed, 1 value\(s\) changed \(max ΔE /
+    )
+  })
+
+  it("should compare with every theme of the installed package", async () => {
+    await runDiff([before, "--json"])
+
+    expect(mockExtractThemes).toHaveBeenCalledWith({
+      colorFormat: "hex",
+      alphaFormat: "hex8",
+      gamutMap: false,
+      themes: ["dark", "light", "retro"],
+    })
+    // The inline brand theme isn't in the package, so it isn't compared
+    expect(JSON.parse(logs[0])).toEqual({
+      before: "before.json",
+      after: "daisyui 5.0.0",
+      addedThemes: ["dark"],
+      removedThemes: [],
+      changes: [],
+    })
+    expect(errors).toEqual([
+      "✗ Couldn't extract theme 'retro': Could not import theme 'retro'",
+    ])
+  })
+
+  it("should extract the installed themes with the color flags", async () => {
+    await runDiff([
+      before,
+      "--color-format",
+      "oklch",
+      "--alpha-format",
+      "rgba",
+      "--gamut-map",
+    ])
+
+    expect(mockExtractThemes).toHaveBeenCalledWith(
+      expect.objectContaining({
+        colorFormat: "oklch",
+        alphaFormat: "rgba",
+        gamutMap: true,
+      })
+    )
+  })
+
+  it("should fall back to the color options of the config file", async () => {
+    writeFileSync(
+      join(dir, "daisyui-theme-extractor.config.json"),
+      JSON.stringify({ colorFormat: "rgb", gamutMap: true })
+    )
+
+    await runDiff([before])
+
+    expect(mockExtractThemes).toHaveBeenCalledWith(
+      expect.objectContaining({
+        colorFormat: "rgb",
+        alphaFormat: "hex8",
+        gamutMap: true,
+      })
+    )
+    expect(logs).toContain("   + dark")
+  })
+
+  it("should exit with an error without an installed package", async () => {
+    mockFindDaisyuiPackage.mockReturnValue(undefined)
+
+    await runDiff([before])
+
+    expect(exit).toHaveBeenCalledWith(1)
+    expect(errors).toEqual([
+      "Error: No installed daisyui package with themes found",
+    ])
+  })
+
+  it("should reject an invalid --alpha-format", async () => {
+    await runDiff([before, "--alpha-format", "hsl"])
+
+    expect(exit).toHaveBeenCalledWith(1)
+    expect(errors[0]).toBe(
+      "Error: Invalid --alpha-format 'hsl' (expected hex8 or rgba)"
+    )
+  })
+})
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "@jest/globals"
+import { diffThemes, getColorDistance } from "../src/diff"
+
+describe("diffThemes", () => {
+  it("should report added and removed themes", () => {
+    const result = diffThemes(
+      { light: { primary: "#ffffff" }, old: { primary: "#000000" } },
+      { light: { primary: "#ffffff" }, brand: { primary: "#ff0000" } }
+    )
+
+    expect(result).toEqual({
+      addedThemes: ["brand"],
+      removedThemes: ["old"],
+      changes: [],
+    })
+  })
+
+  it("should report added, removed and changed properties", () => {
+    const result = diffThemes(
+      { brand: { primary: "#ff0000", accent: "#00ff00", radius: "1rem" } },
+      { brand: { primary: "#ff00aa", accent: "#00ff00", neutral: "#333333" } }
+    )
+
+    expect(result.changes).toEqual([
+      {
+        theme: "brand",
+        key: "primary",
+        before: "#ff0000",
+        after: "#ff00aa",
+        deltaE: 0.1838,
+      },
+      { theme: "brand", key: "radius", before: "1rem" },
+      { theme: "brand", key: "neutral", after: "#333333" },
+    ])
+  })
+
+  it("should compare channel values by content", () => {
+    const channels = { r: 255, g: 0, b: 0, a: 1 }
+    const result = diffThemes(
+      { brand: { primary: channels } },
+      { brand: { primary: { ...channels } } }
+    )
+
+    expect(result.changes).toEqual([])
+  })
+})
+
+describe("getColorDistance", () => {
+  it("should measure the OKLab distance between colors in any format", () => {
+    expect(getColorDistance("#ffffff", "#000000")).toBe(1)
+    expect(getColorDistance("#ff0000", { r: 255, g: 0, b: 0, a: 1 })).toBe(0)
+    expect(getColorDistance("#ff0000", "rgb(250, 0, 0)")).toBeCloseTo(0.0101, 3)
+  })
+
+  it("should skip values that aren't colors", () => {
+    expect(getColorDistance("1rem", "2rem")).toBeUndefined()
+    expect(getColorDistance("#ff0000", undefined)).toBeUndefined()
+  })
+})
@@ -0,0 +1,64 @@
+import { afterAll, beforeAll, describe, expect, it } from "@jest/globals"
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { expandGlob, hasGlobPattern } from "../src/glob"
+
+describe("Glob patterns", () => {
+  let root: string
+
+  beforeAll(() => {
+    root = mkdtempSync(join(tmpdir(), "theme-extractor-glob-"))
+    for (const file of [
+      "apps/web/src/index.css",
+      "apps/docs/src/index.css",
+      "apps/docs/src/extra.scss",
+      "apps/.cache/src/index.css",
+      "node_modules/pkg/src/index.css",
+      "src/index.css",
+    ]) {
+      mkdirSync(join(root, file, ".."), { recursive: true })
+      writeFileSync(join(root, file), "")
+    }
+  })
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  it("should detect glob syntax", () => {
+    expect(hasGlobPattern("apps/*/src/index.css")).toBe(true)
+    expect(hasGlobPattern("src/{a,b}.css")).toBe(true)
+    expect(hasGlobPattern("src/index.css")).toBe(false)
+  })
+
+  it("should match a single directory level with *", () => {
+    expect(expandGlob("apps/*/src/index.css", root)).toEqual([
+      join(root, "apps/docs/src/index.css"),
+      join(root, "apps/web/src/index.css"),
+    ])
+  })
+
+  it("should match any depth with ** but skip node_modules and hidden directories", () => {
+    expect(expandGlob("**/index.css", root)).toEqual([
+      join(root, "apps/docs/src/index.css"),
+      join(root, "apps/web/src/index.css"),
+      join(root, "src/index.css"),
+    ])
+  })
+
+  it("should support braces and ?", () => {
+    expect(expandGlob("apps/{web,docs}/src/*.{css,scss}", root)).toEqual([
+      join(root, "apps/docs/src/extra.scss"),
+      join(root, "apps/docs/src/index.css"),
+      join(root, "apps/web/src/index.css"),
+    ])
+    expect(expandGlob("apps/we?/src/index.css", root)).toEqual([
+      join(root, "apps/web/src/index.css"),
+    ])
+  })
+
+  it("should return an empty list without matches", () => {
+    expect(expandGlob("packages/*/index.css", root)).toEqual([])
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "@jest/globals"
+import { applyOverrides, formatOverride, parseOverride } from "../src/overrides"
+
+describe("parseOverride", () => {
+  it("should parse theme.key=value", () => {
+    expect(parseOverride("forest.primary=#ff0066")).toEqual({
+      theme: "forest",
+      key: "primary",
+      value: "#ff0066",
+    })
+    expect(parseOverride("*.radius-box=0")).toEqual({
+      theme: "*",
+      key: "radius-box",
+      value: "0",
+    })
+    expect(parseOverride("light.primary=oklch(60% 0.2 20)").value).toBe(
+      "oklch(60% 0.2 20)"
+    )
+  })
+
+  it("should reject malformed overrides", () => {
+    expect(() => parseOverride("primary=#ff0066")).toThrow(
+      "Invalid override 'primary=#ff0066' (expected theme.key=value)"
+    )
+    expect(() => parseOverride("forest.primary")).toThrow(
+      "expected theme.key=value"
+    )
+    expect(() => parseOverride("forest.radius-box=")).toThrow("missing value")
+  })
+
+  it("should validate colors", () => {
+    expect(() => parseOverride("forest.primary=#ff00zz")).toThrow(
+      "Invalid override 'forest.primary=#ff00zz': '#ff00zz' is not a color"
+    )
+    expect(() => parseOverride("forest.primary=1rem")).toThrow(
+      "'1rem' is not a color"
+    )
+    expect(() => parseOverride("forest.brand=rgb(nope)")).toThrow(
+      "'rgb(nope)' is not a color"
+    )
+  })
+})
+
+describe("formatOverride", () => {
+  it("should format an override as written on the command line", () => {
+    expect(formatOverride(parseOverride("*.radius-box=0"))).toBe(
+      "*.radius-box=0"
+    )
+  })
+})
+
+describe("applyOverrides", () => {
+  const themes = {
+    forest: { primary: "#1eb854", "radius-box": "1rem" },
+    light: { primary: "#422ad5", "radius-box": "0.5rem" },
+  }
+
+  it("should replace properties of one or all themes", () => {
+    const { themes: result, unmatched } = applyOverrides(themes, [
+      parseOverride("forest.primary=#ff0066"),
+      parseOverride("*.radius-box=0"),
+    ])
+
+    expect(result).toEqual({
+      forest: { primary: "#ff0066", "radius-box": "0" },
+      light: { primary: "#422ad5", "radius-box": "0" },
+    })
+    expect(unmatched).toEqual([])
+    // The input themes are left untouched
+    expect(themes.forest.primary).toBe("#1eb854")
+  })
+
+  it("should convert colors to the output format", () => {
+    const { themes: result } = applyOverrides(
+      { forest: { primary: "rgb(30, 184, 84)" } },
+      [parseOverride("forest.primary=#ff0066")],
+      { colorFormat: "rgb" }
+    )
+
+    expect(result.forest.primary).toBe("rgb(255, 0, 102)")
+  })
+
+  it("should report overrides that match nothing", () => {
+    const overrides = [
+      parseOverride("forst.primary=#ff0066"),
+      parseOverride("forest.primry=#ff0066"),
+      parseOverride("*.border=2px"),
+    ]
+
+    const { themes: result, unmatched } = applyOverrides(themes, overrides)
+
+    expect(result).toEqual(themes)
+    expect(unmatched).toEqual(overrides)
+  })
+})
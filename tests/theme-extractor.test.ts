@@ -8,11 +8,29 @@ import {
 } from "@jest/globals"
 import { formatHex } from "culori"
 import * as fs from "fs"
-import { parseArgs } from "util"
+import { resolve } from "path"
+import { convertStyles, convertToHex } from "../src/colors"
+import {
+  extractInlineThemesFromCss,
+  extractThemeNamesFromCss,
+  extractThemeReferencesFromCss,
+  loadCssFile,
+  loadCssFiles,
+  parseDaisyuiPluginFromCss,
+  readCssFile,
+} from "../src/css"
+import { listInstalledThemes, loadThemeStyles } from "../src/daisyui"
+import { extractThemes } from "../src/extract"
+import { readThemesJson } from "../src/json"
+import type { BaseStyles } from "../src/types"
 
 // Mock modules
 jest.mock("culori")
 jest.mock("fs")
+jest.mock("../src/daisyui", () => ({
+  listInstalledThemes: jest.fn(),
+  loadThemeStyles: jest.fn(),
+}))
 jest.mock("chalk", () => ({
   default: {
     red: jest.fn((str) => str),
@@ -45,118 +63,6 @@ jest.mock("chalk", () => ({
   dim: jest.fn((str) => str),
 }))
 
-// Type definitions for testing
-type BaseStyles = Record<
-  string,
-  string | number | Record<string, string | number>
->
-
-interface CssThemeData {
-  name: string
-  styles: BaseStyles
-}
-
-// Helper functions to test (extracted from main file for testing)
-const convertToHex = (colorString: string): string => {
-  try {
-    const hex = formatHex(colorString)
-    return hex || colorString
-  } catch {
-    return colorString
-  }
-}
-
-const convertStyles = (styles: BaseStyles): BaseStyles => {
-  const converted: BaseStyles = {}
-
-  for (const [key, value] of Object.entries(styles)) {
-    let cleanKey = key
-    if (cleanKey.startsWith("--color-")) {
-      cleanKey = cleanKey.replace("--color-", "")
-    } else if (cleanKey.startsWith("--")) {
-      cleanKey = cleanKey.replace("--", "")
-    }
-
-    if (
-      typeof value === "string" &&
-      (value.includes("oklch(") ||
-        value.includes("rgb(") ||
-        value.includes("hsl(") ||
-        value.includes("lch("))
-    ) {
-      converted[cleanKey] = convertToHex(value)
-    } else {
-      converted[cleanKey] = value
-    }
-  }
-
-  return converted
-}
-
-const extractThemeNamesFromCss = (cssContent: string): string[] => {
-  const themeNames: string[] = []
-  const pluginRegex = /@plugin\s+["']daisyui["']\s*\{[^}]*themes:\s*([^;]+);/gs
-
-  let match
-  while ((match = pluginRegex.exec(cssContent)) !== null) {
-    const themesString = match[1]
-    const themes = themesString
-      .split(",")
-      .map((t) => {
-        const cleaned = t.trim().split(/\s+--/)[0].trim()
-        return cleaned
-      })
-      .filter((t) => t.length > 0)
-
-    themeNames.push(...themes)
-  }
-
-  return [...new Set(themeNames)]
-}
-
-const extractInlineThemesFromCss = (cssContent: string): CssThemeData[] => {
-  const themes: CssThemeData[] = []
-  const pluginRegex = /@plugin\s+["']daisyui\/theme["']\s*\{([\s\S]*?)\}/g
-
-  let match
-  while ((match = pluginRegex.exec(cssContent)) !== null) {
-    const blockContent = match[1]
-    const styles: BaseStyles = {}
-    let themeName = ""
-
-    const lines = blockContent.split("\n")
-    for (const line of lines) {
-      const trimmed = line.trim()
-      if (!trimmed || trimmed.startsWith("//") || trimmed.startsWith("/*"))
-        continue
-
-      const propMatch = trimmed.match(/^([^:]+):\s*([^;]+);?\s*$/)
-      if (propMatch) {
-        const [, key, value] = propMatch
-        const cleanKey = key.trim()
-        const cleanValue = value.trim()
-
-        if (cleanKey === "name") {
-          themeName = cleanValue
-        } else if (cleanKey.startsWith("--")) {
-          styles[cleanKey] = cleanValue
-        } else if (cleanKey === "color-scheme") {
-          styles["color-scheme"] = cleanValue
-        }
-      }
-    }
-
-    if (themeName && Object.keys(styles).length > 0) {
-      themes.push({
-        name: themeName,
-        styles: convertStyles(styles),
-      })
-    }
-  }
-
-  return themes
-}
-
 describe("DaisyUI Theme Extractor", () => {
   beforeEach(() => {
     jest.clearAllMocks()
@@ -291,6 +197,39 @@ describe("DaisyUI Theme Extractor", () => {
         noise: 0.5,
       })
     })
+
+    it("should flatten selector-wrapped styles", () => {
+      const mockFormatHex = formatHex as jest.MockedFunction<typeof formatHex>
+      mockFormatHex.mockReturnValue("#ff0000")
+
+      const styles: BaseStyles = {
+        "[data-theme=forest]": {
+          "color-scheme": "dark",
+          "--color-primary": "oklch(62.8% 0.25768 29.234)",
+          "--radius-box": "1rem",
+        },
+      }
+
+      const result = convertStyles(styles)
+
+      expect(result).toEqual({
+        "color-scheme": "dark",
+        primary: "#ff0000",
+        "radius-box": "1rem",
+      })
+    })
+
+    it("should merge selector-wrapped styles with top-level variables", () => {
+      const styles: BaseStyles = {
+        "--border": "1px",
+        ":root": { "--depth": 1 },
+        "[data-theme=forest]": { "--noise": 0 },
+      }
+
+      const result = convertStyles(styles)
+
+      expect(result).toEqual({ border: "1px", depth: 1, noise: 0 })
+    })
   })
 
   describe("extractThemeNamesFromCss", () => {
@@ -379,6 +318,79 @@ describe("DaisyUI Theme Extractor", () => {
     })
   })
 
+  describe("extractThemeReferencesFromCss", () => {
+    it("should keep --default and --prefersdark flags", () => {
+      const css = `
+        @plugin "daisyui" {
+          themes: light --default, dark --prefersdark, forest;
+        };
+      `
+
+      expect(extractThemeReferencesFromCss(css)).toEqual([
+        { name: "light", default: true, prefersdark: false },
+        { name: "dark", default: false, prefersdark: true },
+        { name: "forest", default: false, prefersdark: false },
+      ])
+    })
+
+    it("should merge flags of duplicate theme names", () => {
+      const css = `
+        @plugin "daisyui" {
+          themes: light, light --default;
+        };
+      `
+
+      expect(extractThemeReferencesFromCss(css)).toEqual([
+        { name: "light", default: true, prefersdark: false },
+      ])
+    })
+  })
+
+  describe("parseDaisyuiPluginFromCss", () => {
+    it("should understand themes: all", () => {
+      const css = `
+        @plugin "daisyui" {
+          themes: all;
+        }
+      `
+
+      expect(parseDaisyuiPluginFromCss(css)).toEqual({
+        themes: [],
+        allThemes: true,
+        exclude: [],
+      })
+      expect(extractThemeNamesFromCss(css)).toEqual([])
+    })
+
+    it("should understand themes: false", () => {
+      const css = `
+        @plugin "daisyui" {
+          themes: false;
+        }
+      `
+
+      expect(parseDaisyuiPluginFromCss(css)).toEqual({
+        themes: [],
+        allThemes: false,
+        exclude: [],
+      })
+    })
+
+    it("should remove excluded themes", () => {
+      const css = `
+        @plugin "daisyui" {
+          themes: light --default, dark, forest;
+          exclude: forest, rootscrollgutter;
+        }
+      `
+
+      const result = parseDaisyuiPluginFromCss(css)
+
+      expect(result.themes.map(({ name }) => name)).toEqual(["light", "dark"])
+      expect(result.exclude).toEqual(["forest", "rootscrollgutter"])
+    })
+  })
+
   describe("extractInlineThemesFromCss", () => {
     beforeEach(() => {
       const mockFormatHex = formatHex as jest.MockedFunction<typeof formatHex>
@@ -415,6 +427,27 @@ describe("DaisyUI Theme Extractor", () => {
       expect(result[0].styles).toHaveProperty("color-scheme", "dark")
     })
 
+    it("should read extends: and keep themes without overrides", () => {
+      const css = `
+        @plugin "daisyui/theme" {
+          name: brand;
+          extends: "forest";
+          --color-primary: #2ade76;
+        }
+        @plugin "daisyui/theme" {
+          name: forest-copy;
+          extends: forest;
+        }
+      `
+
+      const result = extractInlineThemesFromCss(css)
+
+      expect(result).toEqual([
+        { name: "brand", extends: "forest", styles: { primary: "#2ade76" } },
+        { name: "forest-copy", extends: "forest", styles: {} },
+      ])
+    })
+
     it("should skip properties without -- prefix except color-scheme", () => {
       const css = `
         @plugin "daisyui/theme" {
@@ -432,6 +465,35 @@ describe("DaisyUI Theme Extractor", () => {
       expect(result[0].styles).toHaveProperty("base-100")
     })
 
+    it("should strip quotes from theme names", () => {
+      const css = `
+        @plugin "daisyui/theme" {
+          name: "mytheme";
+          --color-base-100: #ffffff;
+        }
+      `
+
+      const result = extractInlineThemesFromCss(css)
+
+      expect(result[0].name).toBe("mytheme")
+    })
+
+    it("should keep default and prefersdark as theme flags", () => {
+      const css = `
+        @plugin "daisyui/theme" {
+          name: mytheme;
+          default: true;
+          prefersdark: false;
+          --color-base-100: #ffffff;
+        }
+      `
+
+      const result = extractInlineThemesFromCss(css)
+
+      expect(result[0].default).toBe(true)
+      expect(result[0].prefersdark).toBe(false)
+    })
+
     it("should handle multiple inline themes", () => {
       const css = `
         @plugin "daisyui/theme" {
@@ -481,6 +543,22 @@ describe("DaisyUI Theme Extractor", () => {
       expect(result).toHaveLength(1)
     })
 
+    it("should handle braces in comments and several declarations per line", () => {
+      const css = `
+        @plugin "daisyui/theme" {
+          name: "mytheme"; /* } */ --color-base-100: #ffffff; --color-primary: #ff0000;
+        }
+      `
+
+      const result = extractInlineThemesFromCss(css)
+
+      expect(result).toHaveLength(1)
+      expect(result[0].styles).toEqual({
+        "base-100": "#ffffff",
+        primary: "#ff0000",
+      })
+    })
+
     it("should handle properties without semicolons", () => {
       const css = `
         @plugin "daisyui/theme" {
@@ -581,6 +659,261 @@ describe("DaisyUI Theme Extractor", () => {
       const result = fs.existsSync("nonexistent.css")
       expect(result).toBe(false)
     })
+
+    it("should read theme names and inline themes with readCssFile", () => {
+      const mockReadFileSync = fs.readFileSync as jest.MockedFunction<
+        typeof fs.readFileSync
+      >
+      const mockExistsSync = fs.existsSync as jest.MockedFunction<
+        typeof fs.existsSync
+      >
+      const mockFormatHex = formatHex as jest.MockedFunction<typeof formatHex>
+      mockFormatHex.mockImplementation(((color: any) => color) as any)
+
+      mockExistsSync.mockReturnValue(true)
+      mockReadFileSync.mockReturnValue(`
+        @plugin "daisyui" {
+          themes: light, dark;
+        };
+        @plugin "daisyui/theme" {
+          name: mytheme;
+          --color-base-100: #ffffff;
+        }
+      `)
+
+      const { themeNames, inlineThemes } = readCssFile("test.css")
+
+      expect(themeNames).toEqual(["light", "dark"])
+      expect(inlineThemes).toEqual([
+        {
+          name: "mytheme",
+          styles: { "base-100": "#ffffff" },
+          source: resolve("test.css"),
+        },
+      ])
+    })
+
+    it("should follow @import statements and record the source file", () => {
+      const mockReadFileSync = fs.readFileSync as jest.MockedFunction<
+        typeof fs.readFileSync
+      >
+      const files: Record<string, string> = {
+        [resolve("src/index.css")]: `
+          @import "tailwindcss";
+          @import "./themes/brand.css" layer(base);
+          @plugin "daisyui" {
+            themes: light;
+          }
+        `,
+        [resolve("src/themes/brand.css")]: `
+          @import url("../index.css");
+          @plugin "daisyui/theme" {
+            name: brand;
+            --color-primary: #ff0000;
+          }
+        `,
+      }
+      const mockExistsSync = fs.existsSync as jest.MockedFunction<
+        typeof fs.existsSync
+      >
+      mockExistsSync.mockImplementation((path) => String(path) in files)
+      mockReadFileSync.mockImplementation(((path: string) => {
+        return files[path]
+      }) as any)
+
+      const {
+        themeReferences,
+        inlineThemes,
+        files: read,
+      } = loadCssFile("src/index.css")
+
+      expect(read).toEqual([
+        resolve("src/index.css"),
+        resolve("src/themes/brand.css"),
+      ])
+      expect(themeReferences).toEqual([
+        {
+          name: "light",
+          default: false,
+          prefersdark: false,
+          source: resolve("src/index.css"),
+        },
+      ])
+      expect(inlineThemes).toEqual([
+        {
+          name: "brand",
+          styles: { "--color-primary": "#ff0000" },
+          source: resolve("src/themes/brand.css"),
+        },
+      ])
+    })
+
+    it("should merge several CSS files and report conflicting inline themes", () => {
+      const mockReadFileSync = fs.readFileSync as jest.MockedFunction<
+        typeof fs.readFileSync
+      >
+      const theme = (primary: string): string => `
+        @plugin "daisyui/theme" {
+          name: brand;
+          --color-primary: ${primary};
+        }
+      `
+      const files: Record<string, string> = {
+        [resolve("apps/web/index.css")]: `
+          @plugin "daisyui" {
+            themes: light --default;
+          }
+          ${theme("#ff0000")}
+        `,
+        [resolve("apps/docs/index.css")]: `
+          @plugin "daisyui" {
+            themes: light, dark --prefersdark;
+          }
+          ${theme("#00ff00")}
+        `,
+        [resolve("apps/blog/index.css")]: theme("#ff0000"),
+      }
+      const mockExistsSync = fs.existsSync as jest.MockedFunction<
+        typeof fs.existsSync
+      >
+      mockExistsSync.mockImplementation((path) => String(path) in files)
+      mockReadFileSync.mockImplementation(((path: string) => {
+        return files[path]
+      }) as any)
+
+      const result = loadCssFiles([
+        "apps/web/index.css",
+        "apps/docs/index.css",
+        "apps/blog/index.css",
+      ])
+
+      expect(result.themeReferences).toEqual([
+        {
+          name: "light",
+          default: true,
+          prefersdark: false,
+          source: resolve("apps/web/index.css"),
+        },
+        {
+          name: "dark",
+          default: false,
+          prefersdark: true,
+          source: resolve("apps/docs/index.css"),
+        },
+      ])
+      expect(result.inlineThemes).toEqual([
+        {
+          name: "brand",
+          styles: { "--color-primary": "#ff0000" },
+          source: resolve("apps/web/index.css"),
+        },
+      ])
+      expect(result.conflicts).toEqual([
+        {
+          theme: "brand",
+          files: [
+            resolve("apps/web/index.css"),
+            resolve("apps/docs/index.css"),
+          ],
+        },
+      ])
+      expect(result.files).toHaveLength(3)
+    })
+
+    it("should throw when a glob pattern matches no CSS files", () => {
+      expect(() => loadCssFiles(["no-such-dir/*/index.css"])).toThrow(
+        "No CSS files match 'no-such-dir/*/index.css'"
+      )
+    })
+
+    it("should report missing imported files with the import position", () => {
+      const mockReadFileSync = fs.readFileSync as jest.MockedFunction<
+        typeof fs.readFileSync
+      >
+      const mockExistsSync = fs.existsSync as jest.MockedFunction<
+        typeof fs.existsSync
+      >
+      mockExistsSync.mockImplementation((path) => path === resolve("index.css"))
+      mockReadFileSync.mockReturnValue('\n@import "./missing.css";')
+
+      expect(() => loadCssFile("index.css")).toThrow(
+        "CSS file not found: missing.css (imported at index.css:2:1)"
+      )
+    })
+
+    it("should throw from readCssFile when the file is missing", () => {
+      const mockExistsSync = fs.existsSync as jest.MockedFunction<
+        typeof fs.existsSync
+      >
+      mockExistsSync.mockReturnValue(false)
+
+      expect(() => readCssFile("nonexistent.css")).toThrow(
+        "CSS file not found: nonexistent.css"
+      )
+    })
+  })
+
+  describe("readThemesJson", () => {
+    const mockReadFileSync = fs.readFileSync as jest.MockedFunction<
+      typeof fs.readFileSync
+    >
+    const mockExistsSync = fs.existsSync as jest.MockedFunction<
+      typeof fs.existsSync
+    >
+
+    beforeEach(() => {
+      mockExistsSync.mockReturnValue(true)
+    })
+
+    it("should read a themes JSON file", () => {
+      mockReadFileSync.mockReturnValue('{"forest": {"primary": "#1fb854"}}')
+
+      expect(readThemesJson("themes.json")).toEqual({
+        themes: { forest: { primary: "#1fb854" } },
+      })
+    })
+
+    it("should separate the $metadata section from themes", () => {
+      mockReadFileSync.mockReturnValue(
+        JSON.stringify({
+          forest: { primary: "#1fb854" },
+          $metadata: {
+            forest: { default: true, prefersdark: false, source: "inline" },
+          },
+        })
+      )
+
+      expect(readThemesJson("themes.json")).toEqual({
+        themes: { forest: { primary: "#1fb854" } },
+        metadata: {
+          forest: { default: true, prefersdark: false, source: "inline" },
+        },
+      })
+    })
+
+    it("should throw when the file is missing", () => {
+      mockExistsSync.mockReturnValue(false)
+
+      expect(() => readThemesJson("themes.json")).toThrow(
+        "Themes file not found: themes.json"
+      )
+    })
+
+    it("should throw on invalid JSON", () => {
+      mockReadFileSync.mockReturnValue("{")
+
+      expect(() => readThemesJson("themes.json")).toThrow(
+        "Invalid JSON in themes.json"
+      )
+    })
+
+    it("should throw when themes are not objects", () => {
+      mockReadFileSync.mockReturnValue('{"forest": "#1fb854"}')
+
+      expect(() => readThemesJson("themes.json")).toThrow(
+        "expected an object of themes"
+      )
+    })
   })
 
   describe("Error handling", () => {
@@ -616,6 +949,241 @@ describe("DaisyUI Theme Extractor", () => {
     })
   })
 
+  describe("extractThemes", () => {
+    const mockLoadThemeStyles = loadThemeStyles as jest.MockedFunction<
+      typeof loadThemeStyles
+    >
+
+    beforeEach(() => {
+      const mockFormatHex = formatHex as jest.MockedFunction<typeof formatHex>
+      mockFormatHex.mockImplementation(((color: any) => color) as any)
+      mockLoadThemeStyles.mockImplementation(async (name: string) => {
+        if (name === "missing") {
+          throw new Error(`Could not import theme '${name}'`)
+        }
+        return { "--color-primary": `#${name}` }
+      })
+    })
+
+    it("should extract themes from node_modules", async () => {
+      const result = await extractThemes({ themes: ["light", "dark"] })
+
+      expect(result.themes).toEqual({
+        light: { primary: "#light" },
+        dark: { primary: "#dark" },
+      })
+      expect(result.errors).toEqual([])
+      expect(result.outOfGamut).toEqual({})
+      expect(mockLoadThemeStyles).toHaveBeenCalledTimes(2)
+    })
+
+    it("should read color-scheme from selector-wrapped theme styles", async () => {
+      mockLoadThemeStyles.mockResolvedValue({
+        "[data-theme=forest]": {
+          "color-scheme": "dark",
+          "--color-primary": "#1eb854",
+        },
+      })
+
+      const result = await extractThemes({ themes: ["forest"] })
+
+      expect(result.themes).toEqual({
+        forest: { "color-scheme": "dark", primary: "#1eb854" },
+      })
+      expect(result.metadata.forest).toEqual({
+        default: false,
+        prefersdark: false,
+        colorScheme: "dark",
+        source: "node_modules",
+      })
+    })
+
+    it("should collect errors instead of throwing", async () => {
+      const result = await extractThemes({ themes: ["light", "missing"] })
+
+      expect(Object.keys(result.themes)).toEqual(["light"])
+      expect(result.errors).toEqual([
+        { theme: "missing", error: "Could not import theme 'missing'" },
+      ])
+    })
+
+    it("should combine CSS theme names and inline themes", async () => {
+      const mockReadFileSync = fs.readFileSync as jest.MockedFunction<
+        typeof fs.readFileSync
+      >
+      const mockExistsSync = fs.existsSync as jest.MockedFunction<
+        typeof fs.existsSync
+      >
+      mockExistsSync.mockReturnValue(true)
+      mockReadFileSync.mockReturnValue(`
+        @plugin "daisyui" {
+          themes: light --default, mytheme;
+        };
+        @plugin "daisyui/theme" {
+          name: mytheme;
+          prefersdark: true;
+          color-scheme: dark;
+          --color-primary: #2ade76;
+        }
+      `)
+
+      const result = await extractThemes({
+        themes: ["dark"],
+        cssPath: "index.css",
+      })
+
+      expect(result.themes).toEqual({
+        dark: { primary: "#dark" },
+        light: { primary: "#light" },
+        mytheme: { "color-scheme": "dark", primary: "#2ade76" },
+      })
+      expect(result.cssThemeNames).toEqual(["light", "mytheme"])
+      expect(result.metadata).toEqual({
+        dark: { default: false, prefersdark: false, source: "node_modules" },
+        light: { default: true, prefersdark: false, source: "node_modules" },
+        mytheme: {
+          default: false,
+          prefersdark: true,
+          colorScheme: "dark",
+          source: "inline",
+        },
+      })
+      expect(result.inlineThemeNames).toEqual(["mytheme"])
+      expect(result.cssFiles).toEqual([resolve("index.css")])
+      expect(result.themeFiles).toEqual({
+        light: resolve("index.css"),
+        mytheme: resolve("index.css"),
+      })
+      expect(mockLoadThemeStyles).not.toHaveBeenCalledWith("mytheme")
+    })
+
+    it("should layer inline themes over the theme they extend", async () => {
+      const mockReadFileSync = fs.readFileSync as jest.MockedFunction<
+        typeof fs.readFileSync
+      >
+      const mockExistsSync = fs.existsSync as jest.MockedFunction<
+        typeof fs.existsSync
+      >
+      mockExistsSync.mockReturnValue(true)
+      mockLoadThemeStyles.mockResolvedValue({
+        "[data-theme=forest]": {
+          "color-scheme": "dark",
+          "--color-primary": "#1eb854",
+          "--color-accent": "#1db88e",
+        },
+      })
+      mockReadFileSync.mockReturnValue(`
+        @plugin "daisyui/theme" {
+          name: brand;
+          extends: forest;
+          --color-primary: #ff5500;
+        }
+      `)
+
+      const result = await extractThemes({ cssPath: "index.css" })
+
+      expect(result.themes).toEqual({
+        brand: {
+          "color-scheme": "dark",
+          primary: "#ff5500",
+          accent: "#1db88e",
+        },
+      })
+      expect(result.metadata.brand).toEqual({
+        default: false,
+        prefersdark: false,
+        colorScheme: "dark",
+        source: "inline",
+        extends: "forest",
+      })
+      expect(mockLoadThemeStyles).toHaveBeenCalledWith("forest")
+    })
+
+    it("should report a missing base theme as a theme error", async () => {
+      const mockReadFileSync = fs.readFileSync as jest.MockedFunction<
+        typeof fs.readFileSync
+      >
+      const mockExistsSync = fs.existsSync as jest.MockedFunction<
+        typeof fs.existsSync
+      >
+      mockExistsSync.mockReturnValue(true)
+      mockReadFileSync.mockReturnValue(`
+        @plugin "daisyui/theme" {
+          name: brand;
+          extends: missing;
+          --color-primary: #ff5500;
+        }
+      `)
+
+      const result = await extractThemes({ cssPath: "index.css" })
+
+      expect(result.themes).toEqual({})
+      expect(result.errors).toEqual([
+        {
+          theme: "brand",
+          error: "Can't extend 'missing': Could not import theme 'missing'",
+        },
+      ])
+    })
+
+    it("should resolve themes: all from the installed package", async () => {
+      const mockReadFileSync = fs.readFileSync as jest.MockedFunction<
+        typeof fs.readFileSync
+      >
+      const mockExistsSync = fs.existsSync as jest.MockedFunction<
+        typeof fs.existsSync
+      >
+      const mockListInstalledThemes =
+        listInstalledThemes as jest.MockedFunction<typeof listInstalledThemes>
+      mockExistsSync.mockReturnValue(true)
+      mockListInstalledThemes.mockReturnValue(["dark", "forest", "light"])
+      mockReadFileSync.mockReturnValue(`
+        @plugin "daisyui" {
+          themes: all;
+          exclude: forest;
+        }
+      `)
+
+      const result = await extractThemes({ cssPath: "index.css" })
+
+      expect(Object.keys(result.themes)).toEqual(["dark", "light"])
+      expect(result.cssThemeNames).toEqual(["dark", "light"])
+    })
+
+    it("should throw for themes: all without an installed package", async () => {
+      const mockReadFileSync = fs.readFileSync as jest.MockedFunction<
+        typeof fs.readFileSync
+      >
+      const mockExistsSync = fs.existsSync as jest.MockedFunction<
+        typeof fs.existsSync
+      >
+      const mockListInstalledThemes =
+        listInstalledThemes as jest.MockedFunction<typeof listInstalledThemes>
+      mockExistsSync.mockReturnValue(true)
+      mockListInstalledThemes.mockReturnValue([])
+      mockReadFileSync.mockReturnValue(`
+        @plugin "daisyui" {
+          themes: all;
+        }
+      `)
+
+      await expect(extractThemes({ cssPath: "index.css" })).rejects.toThrow(
+        "themes: all found no installed daisyui package"
+      )
+    })
+
+    it("should throw when the CSS file is missing", async () => {
+      const mockExistsSync = fs.existsSync as jest.MockedFunction<
+        typeof fs.existsSync
+      >
+      mockExistsSync.mockReturnValue(false)
+
+      await expect(extractThemes({ cssPath: "missing.css" })).rejects.toThrow(
+        "CSS file not found: missing.css"
+      )
+    })
+  })
+
   describe("Integration tests", () => {
     it("should handle complete CSS file with both theme types", () => {
       const mockFormatHex = formatHex as jest.MockedFunction<typeof formatHex>
@@ -0,0 +1,148 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+} from "@jest/globals"
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { runToPlugin } from "../src/commands/to-plugin"
+import { extractInlineThemesFromCss } from "../src/css"
+import type { BaseStyles, ThemeMetadata } from "../src/types"
+import { renderJson } from "../src/writers/json"
+
+// chalk is ESM only; every style returns the text unchanged
+jest.mock("chalk", () => {
+  const style: unknown = new Proxy((text: unknown) => String(text), {
+    get: () => style,
+  })
+  return { __esModule: true, default: style }
+})
+
+describe("runToPlugin", () => {
+  let dir: string
+  let input: string
+  let logs: string[]
+  let exit: jest.SpiedFunction<typeof process.exit>
+
+  const themes: Record<string, BaseStyles> = {
+    light: {
+      "color-scheme": "light",
+      "base-100": "#ffffff",
+      primary: "#422ad5",
+      "radius-box": "0.5rem",
+    },
+    forest: {
+      "color-scheme": "dark",
+      "base-100": "#1b1717",
+      primary: "#1fb854",
+      "radius-box": "1rem",
+    },
+  }
+  const metadata: Record<string, ThemeMetadata> = {
+    light: {
+      default: true,
+      prefersdark: false,
+      colorScheme: "light",
+      source: "node_modules",
+    },
+    forest: {
+      default: false,
+      prefersdark: true,
+      colorScheme: "dark",
+      source: "inline",
+    },
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "theme-extractor-to-plugin-"))
+    input = join(dir, "themes.json")
+    writeFileSync(input, renderJson(themes, { metadata }))
+    logs = []
+    const record = (...args: unknown[]): void => {
+      logs.push(args.join(" "))
+    }
+    jest.spyOn(console, "log").mockImplementation(record)
+    jest.spyOn(console, "error").mockImplementation(record)
+    exit = jest
+      .spyOn(process, "exit")
+      .mockImplementation((() => undefined) as never)
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it("should write plugin CSS that extracts back to the same themes", async () => {
+    const output = join(dir, "themes.css")
+
+    await runToPlugin([input, "-o", output])
+
+    expect(exit).not.toHaveBeenCalled()
+    expect(logs[0]).toMatch(/wrote 2 theme\(s\) from .*themes\.json to /)
+    expect(extractInlineThemesFromCss(readFileSync(output, "utf8"))).toEqual([
+      {
+        name: "light",
+        styles: themes.light,
+        default: true,
+        prefersdark: false,
+      },
+      {
+        name: "forest",
+        styles: themes.forest,
+        default: false,
+        prefersdark: true,
+      },
+    ])
+  })
+
+  it("should let the flags override the $metadata flags", async () => {
+    const output = join(dir, "themes.css")
+
+    await runToPlugin([
+      input,
+      "-o",
+      output,
+      "--default-theme",
+      "forest",
+      "--prefers-dark",
+      "light",
+    ])
+
+    const parsed = extractInlineThemesFromCss(readFileSync(output, "utf8"))
+    expect(
+      parsed.map(({ name, default: isDefault, prefersdark }) => ({
+        name,
+        isDefault,
+        prefersdark,
+      }))
+    ).toEqual([
+      { name: "light", isDefault: false, prefersdark: true },
+      { name: "forest", isDefault: true, prefersdark: false },
+    ])
+  })
+
+  it("should print the CSS without --output", async () => {
+    const write = jest
+      .spyOn(process.stdout, "write")
+      .mockImplementation(() => true)
+
+    await runToPlugin([input])
+
+    expect(write).toHaveBeenCalledTimes(1)
+    expect(String(write.mock.calls[0][0])).toContain(
+      '@plugin "daisyui/theme" {'
+    )
+  })
+
+  it("should exit with an error when the JSON file is missing", async () => {
+    await runToPlugin([join(dir, "missing.json")])
+
+    expect(exit).toHaveBeenCalledWith(1)
+    expect(logs[0]).toMatch(/^Error: Themes file not found: /)
+  })
+})
@@ -0,0 +1,220 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+} from "@jest/globals"
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+} from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { runWatch } from "../src/commands/watch"
+import { extractThemes } from "../src/extract"
+import type { BaseStyles, ExtractResult } from "../src/types"
+import { watchFiles } from "../src/watch"
+
+// chalk is ESM only; every style returns the text unchanged
+jest.mock("chalk", () => {
+  const style: unknown = new Proxy((text: unknown) => String(text), {
+    get: () => style,
+  })
+  return { __esModule: true, default: style }
+})
+jest.mock("../src/daisyui", () => ({
+  findDaisyuiPackage: jest.fn(),
+}))
+jest.mock("../src/extract", () => ({
+  extractThemes: jest.fn(),
+}))
+
+const wait = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * Wait until a condition holds, failing after `timeout` milliseconds
+ */
+const waitFor = async (
+  condition: () => boolean,
+  timeout: number = 2000
+): Promise<void> => {
+  const start = Date.now()
+  while (!condition()) {
+    if (Date.now() - start > timeout) {
+      throw new Error("Timed out waiting for condition")
+    }
+    await wait(10)
+  }
+}
+
+describe("watchFiles", () => {
+  let dir: string
+  let file: string
+  let stop: () => void
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "theme-extractor-watch-"))
+    file = join(dir, "index.css")
+    writeFileSync(file, "a")
+    writeFileSync(join(dir, "other.css"), "a")
+    stop = (): void => {}
+  })
+
+  afterEach(() => {
+    stop()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it("should call onChange once per burst of changes", async () => {
+    const onChange = jest.fn()
+    stop = watchFiles([file], onChange, 50)
+
+    writeFileSync(file, "b")
+    writeFileSync(file, "c")
+    writeFileSync(file, "d")
+    await waitFor(() => onChange.mock.calls.length > 0)
+    await wait(150)
+
+    expect(onChange).toHaveBeenCalledTimes(1)
+    expect(onChange).toHaveBeenCalledWith(file)
+  })
+
+  it("should keep watching a file that is replaced on save", async () => {
+    const onChange = jest.fn()
+    stop = watchFiles([file], onChange, 50)
+
+    writeFileSync(join(dir, "index.css.tmp"), "b")
+    renameSync(join(dir, "index.css.tmp"), file)
+    await waitFor(() => onChange.mock.calls.length === 1)
+    writeFileSync(file, "c")
+    await waitFor(() => onChange.mock.calls.length === 2)
+
+    expect(onChange).toHaveBeenLastCalledWith(file)
+  })
+
+  it("should ignore other files in the same directory", async () => {
+    const onChange = jest.fn()
+    stop = watchFiles([file], onChange, 50)
+
+    writeFileSync(join(dir, "other.css"), "b")
+    await wait(200)
+
+    expect(onChange).not.toHaveBeenCalled()
+  })
+
+  it("should clear a pending change when stopped", async () => {
+    const onChange = jest.fn()
+    stop = watchFiles([file], onChange, 100)
+
+    writeFileSync(file, "b")
+    await wait(50)
+    stop()
+    await wait(200)
+
+    expect(onChange).not.toHaveBeenCalled()
+  })
+})
+
+describe("runWatch", () => {
+  const mockExtractThemes = extractThemes as jest.MockedFunction<
+    typeof extractThemes
+  >
+  let dir: string
+  let css: string
+  let output: string
+  let stop: () => void
+
+  const createResult = (themes: Record<string, BaseStyles>): ExtractResult => ({
+    themes,
+    errors: [],
+    metadata: {},
+    outOfGamut: {},
+    derived: {},
+    cssThemeNames: [],
+    inlineThemeNames: Object.keys(themes),
+    cssFiles: [css],
+    themeFiles: {},
+    conflicts: [],
+    unmatchedOverrides: [],
+  })
+
+  const readOutput = (): string =>
+    existsSync(output) ? readFileSync(output, "utf8") : ""
+
+  const start = (): Promise<() => void> =>
+    runWatch({
+      extractOptions: { cssPath: css },
+      render: (result) => ({ [output]: JSON.stringify(result.themes) }),
+      initial: createResult({ brand: { primary: "#000000" } }),
+    })
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "theme-extractor-run-watch-"))
+    css = join(dir, "index.css")
+    output = join(dir, "themes.json")
+    writeFileSync(css, "a")
+    jest.spyOn(console, "log").mockImplementation(() => {})
+    jest.spyOn(console, "error").mockImplementation(() => {})
+    stop = (): void => {}
+  })
+
+  afterEach(() => {
+    stop()
+    jest.restoreAllMocks()
+    mockExtractThemes.mockReset()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it("should rewrite the output when a CSS file changes", async () => {
+    mockExtractThemes.mockResolvedValue(
+      createResult({ brand: { primary: "#ff0066" } })
+    )
+    stop = await start()
+
+    writeFileSync(css, "b")
+    await waitFor(() => mockExtractThemes.mock.calls.length === 1)
+    await waitFor(() => readOutput().includes("#ff0066"))
+
+    expect(mockExtractThemes).toHaveBeenCalledWith({ cssPath: css })
+  })
+
+  it("should extract again after a change made during an extraction", async () => {
+    let finish = (): void => {}
+    mockExtractThemes
+      .mockImplementationOnce(
+        () =>
+          new Promise((resolve) => {
+            finish = (): void =>
+              resolve(createResult({ brand: { primary: "#111111" } }))
+          })
+      )
+      .mockResolvedValue(createResult({ brand: { primary: "#222222" } }))
+    stop = await start()
+
+    writeFileSync(css, "b")
+    await waitFor(() => mockExtractThemes.mock.calls.length === 1)
+    writeFileSync(css, "c")
+    await wait(200)
+    finish()
+    await waitFor(() => mockExtractThemes.mock.calls.length === 2)
+    await waitFor(() => readOutput().includes("#222222"))
+  })
+
+  it("should stop watching when stopped", async () => {
+    mockExtractThemes.mockResolvedValue(createResult({}))
+    stop = await start()
+
+    stop()
+    writeFileSync(css, "b")
+    await wait(200)
+
+    expect(mockExtractThemes).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,429 @@
+import { describe, expect, it } from "@jest/globals"
+import { extractInlineThemesFromCss } from "../src/css"
+import type { BaseStyles, ThemeMetadata } from "../src/types"
+import {
+  renderCss,
+  renderDaisyui4,
+  renderDtcg,
+  renderJson,
+  renderPlugin,
+  renderThemes,
+  renderTypeScript,
+} from "../src/writers"
+import { isOutputTemplate, renderSplitThemes } from "../src/writers/split"
+
+const themes: Record<string, BaseStyles> = {
+  light: {
+    "color-scheme": "light",
+    "base-100": "#ffffff",
+    primary: "#422ad5",
+    "radius-box": "0.5rem",
+    depth: 1,
+  },
+  dark: {
+    "color-scheme": "dark",
+    "base-100": "#1d232a",
+    primary: { r: 96, g: 93, b: 255, a: 1 },
+  },
+}
+
+describe("Writers", () => {
+  describe("renderJson", () => {
+    it("should render themes as formatted JSON", () => {
+      expect(renderJson(themes, {})).toBe(JSON.stringify(themes, null, 2))
+    })
+  })
+
+  describe("renderCss", () => {
+    it("should render a data-theme block per theme", () => {
+      const css = renderCss(themes, {})
+
+      expect(css).toBe(`[data-theme="light"] {
+  color-scheme: light;
+  --color-base-100: #ffffff;
+  --color-primary: #422ad5;
+  --radius-box: 0.5rem;
+  --depth: 1;
+}
+
+[data-theme="dark"] {
+  color-scheme: dark;
+  --color-base-100: #1d232a;
+  --color-primary: rgba(96, 93, 255, 1);
+}
+`)
+    })
+
+    it("should apply the default theme to :root", () => {
+      const css = renderCss(themes, { defaultTheme: "light" })
+
+      expect(css).toContain(':root, [data-theme="light"] {')
+      expect(css).toContain('\n[data-theme="dark"] {')
+    })
+
+    it("should add a prefers-color-scheme block for the prefersdark theme", () => {
+      const css = renderCss(themes, { prefersDarkTheme: "dark" })
+
+      expect(css).toContain(`@media (prefers-color-scheme: dark) {
+  :root {
+    color-scheme: dark;
+    --color-base-100: #1d232a;
+    --color-primary: rgba(96, 93, 255, 1);
+  }
+}
+`)
+    })
+
+    it("should skip the prefers-color-scheme block for unknown themes", () => {
+      expect(renderCss(themes, { prefersDarkTheme: "nope" })).not.toContain(
+        "@media"
+      )
+    })
+  })
+
+  describe("renderDtcg", () => {
+    it("should infer token types from cleaned keys", () => {
+      const tokens = JSON.parse(
+        renderDtcg(
+          {
+            forest: {
+              "color-scheme": "dark",
+              primary: "#1fb854",
+              "base-300": "#00000040",
+              "radius-box": "1rem",
+              border: "1px",
+              depth: "0",
+              noise: 1,
+            },
+          },
+          {}
+        )
+      )
+
+      expect(tokens).toEqual({
+        forest: {
+          $extensions: { "com.daisyui": { "color-scheme": "dark" } },
+          primary: { $type: "color", $value: "#1fb854" },
+          "base-300": { $type: "color", $value: "#00000040" },
+          "radius-box": { $type: "dimension", $value: "1rem" },
+          border: { $type: "dimension", $value: "1px" },
+          depth: { $type: "number", $value: 0 },
+          noise: { $type: "number", $value: 1 },
+        },
+      })
+    })
+
+    it("should write non-hex colors as hex", () => {
+      const tokens = JSON.parse(renderDtcg(themes, {}))
+
+      expect(tokens.dark.primary).toEqual({ $type: "color", $value: "#605dff" })
+    })
+
+    it("should leave unknown values untyped", () => {
+      const tokens = JSON.parse(renderDtcg({ t: { font: "Inter" } }, {}))
+
+      expect(tokens.t.font).toEqual({ $value: "Inter" })
+    })
+  })
+
+  describe("renderTypeScript", () => {
+    it("should export themes as const with literal unions", () => {
+      const ts = renderTypeScript(themes, {})
+
+      expect(ts).toContain(
+        `export const themes = ${JSON.stringify(themes, null, 2)} as const`
+      )
+      expect(ts).toContain(`export type ThemeName =
+  | "light"
+  | "dark"`)
+      expect(ts).toContain(
+        'export const themeNames: readonly ThemeName[] = ["light", "dark"]'
+      )
+      expect(ts).toContain(
+        "export const getTheme = <T extends ThemeName>(name: T): Themes[T] => {"
+      )
+    })
+
+    it("should only include color keys shared by every theme", () => {
+      const ts = renderTypeScript(themes, {})
+
+      expect(ts).toContain(`export type ThemeColorKey =
+  | "base-100"
+  | "primary"
+`)
+    })
+
+    it("should use never for empty unions", () => {
+      const ts = renderTypeScript({}, {})
+
+      expect(ts).toContain("export type ThemeName = never")
+      expect(ts).toContain("export type ThemeColorKey = never")
+    })
+  })
+
+  describe("renderDaisyui4", () => {
+    const loadConfig = (source: string): { themes: unknown[] } => {
+      const module = { exports: {} as { themes: unknown[] } }
+      new Function("module", source)(module)
+      return module.exports
+    }
+
+    it("should export a daisyui config with v4 theme objects", () => {
+      const config = loadConfig(
+        renderDaisyui4(
+          {
+            forest: {
+              "color-scheme": "dark",
+              primary: "#1fb854",
+              "primary-content": { r: 0, g: 0, b: 0, a: 1 },
+              "radius-selector": "1rem",
+              "radius-field": "2rem",
+              "radius-box": "1rem",
+              "size-field": "0.25rem",
+              border: "1px",
+              depth: "0",
+            },
+          },
+          {}
+        )
+      )
+
+      expect(config.themes).toEqual([
+        {
+          forest: {
+            "color-scheme": "dark",
+            primary: "#1fb854",
+            "primary-content": "rgba(0, 0, 0, 1)",
+            "--rounded-badge": "1rem",
+            "--rounded-btn": "2rem",
+            "--tab-radius": "2rem",
+            "--rounded-box": "1rem",
+            "--border-btn": "1px",
+            "--tab-border": "1px",
+          },
+        },
+      ])
+    })
+
+    it("should keep theme order", () => {
+      const config = loadConfig(renderDaisyui4(themes, {}))
+
+      expect(
+        config.themes.map((theme) => Object.keys(theme as object))
+      ).toEqual([["light"], ["dark"]])
+    })
+  })
+
+  describe("renderPlugin", () => {
+    it("should render @plugin daisyui/theme blocks", () => {
+      const css = renderPlugin(
+        { light: themes.light },
+        { defaultTheme: "light" }
+      )
+
+      expect(css).toBe(`@plugin "daisyui/theme" {
+  name: "light";
+  default: true;
+  prefersdark: false;
+  color-scheme: light;
+  --color-base-100: #ffffff;
+  --color-primary: #422ad5;
+  --radius-box: 0.5rem;
+  --depth: 1;
+}
+`)
+    })
+
+    it("should mark the prefersdark theme", () => {
+      const css = renderPlugin(themes, { prefersDarkTheme: "dark" })
+
+      expect(css).toContain(`  name: "dark";
+  default: false;
+  prefersdark: true;`)
+    })
+
+    it("should round-trip through extractInlineThemesFromCss", () => {
+      const source: Record<string, BaseStyles> = {
+        forest: {
+          "color-scheme": "dark",
+          "base-100": "#1b1717",
+          primary: "#1fb854",
+          "radius-selector": "1rem",
+          border: "1px",
+          depth: "0",
+        },
+      }
+
+      const parsed = extractInlineThemesFromCss(renderPlugin(source, {}))
+
+      expect(parsed).toEqual([
+        {
+          name: "forest",
+          styles: source.forest,
+          default: false,
+          prefersdark: false,
+        },
+      ])
+    })
+  })
+
+  describe("metadata", () => {
+    const metadata: Record<string, ThemeMetadata> = {
+      light: {
+        default: true,
+        prefersdark: false,
+        colorScheme: "light",
+        source: "node_modules",
+      },
+      dark: {
+        default: false,
+        prefersdark: true,
+        colorScheme: "dark",
+        source: "inline",
+      },
+    }
+
+    it("should add a $metadata section to JSON only when given", () => {
+      expect(JSON.parse(renderJson(themes, { metadata }))).toEqual({
+        ...themes,
+        $metadata: metadata,
+      })
+      expect(JSON.parse(renderJson(themes, {}))).not.toHaveProperty("$metadata")
+    })
+
+    it("should pick default and prefersdark themes for CSS", () => {
+      const css = renderCss(themes, { metadata })
+
+      expect(css).toContain(':root, [data-theme="light"] {')
+      expect(css).toContain("@media (prefers-color-scheme: dark) {")
+    })
+
+    it("should let explicit options win over metadata", () => {
+      const css = renderCss(themes, { metadata, defaultTheme: "dark" })
+
+      expect(css).toContain(':root, [data-theme="dark"] {')
+      expect(css).not.toContain(':root, [data-theme="light"]')
+    })
+
+    it("should mark flagged themes in plugin CSS", () => {
+      const css = renderPlugin(themes, { metadata })
+
+      expect(css).toContain(`  name: "light";
+  default: true;`)
+      expect(css).toContain(`  name: "dark";
+  default: false;
+  prefersdark: true;`)
+    })
+
+    it("should export themeMetadata from TypeScript output", () => {
+      expect(renderTypeScript(themes, { metadata })).toContain(
+        `export const themeMetadata = ${JSON.stringify(
+          metadata,
+          null,
+          2
+        )} as const`
+      )
+      expect(renderTypeScript(themes, {})).not.toContain("themeMetadata")
+    })
+
+    it("should set darkTheme in daisyUI v4 config", () => {
+      expect(renderDaisyui4(themes, { metadata })).toContain(
+        '  darkTheme: "dark",'
+      )
+    })
+
+    it("should list the default theme first in daisyUI v4 config", () => {
+      const themeOrder = (config: string): string[] =>
+        [...config.matchAll(/^ {6}"(\w+)": \{/gm)].map(([, name]) => name)
+
+      expect(themeOrder(renderDaisyui4(themes, { metadata }))).toEqual([
+        "light",
+        "dark",
+      ])
+      expect(
+        themeOrder(renderDaisyui4(themes, { defaultTheme: "dark" }))
+      ).toEqual(["dark", "light"])
+      expect(
+        themeOrder(
+          renderDaisyui4(themes, {
+            metadata: {
+              light: { ...metadata.light, default: false },
+              dark: { ...metadata.dark, default: true },
+            },
+          })
+        )
+      ).toEqual(["dark", "light"])
+    })
+  })
+
+  describe("renderThemes", () => {
+    it("should default to JSON", () => {
+      expect(renderThemes(themes)).toBe(renderJson(themes, {}))
+    })
+
+    it("should dispatch to the requested format", () => {
+      expect(renderThemes(themes, "css", { defaultTheme: "dark" })).toBe(
+        renderCss(themes, { defaultTheme: "dark" })
+      )
+    })
+  })
+
+  describe("renderSplitThemes", () => {
+    it("should detect output templates", () => {
+      expect(isOutputTemplate("themes/{name}.json")).toBe(true)
+      expect(isOutputTemplate("themes.json")).toBe(false)
+    })
+
+    it("should write one JSON file per theme and an index", () => {
+      const files = renderSplitThemes(themes, "out/{name}.json")
+
+      expect(Object.keys(files)).toEqual([
+        "out/light.json",
+        "out/dark.json",
+        "out/index.json",
+      ])
+      expect(JSON.parse(files["out/dark.json"])).toEqual({ dark: themes.dark })
+      expect(JSON.parse(files["out/index.json"])).toEqual({
+        light: "./light.json",
+        dark: "./dark.json",
+      })
+    })
+
+    it("should keep only each theme's metadata", () => {
+      const metadata: Record<string, ThemeMetadata> = {
+        light: { default: true, prefersdark: false, source: "node_modules" },
+        dark: { default: false, prefersdark: true, source: "node_modules" },
+      }
+      const files = renderSplitThemes(themes, "out/{name}.json", "json", {
+        metadata,
+      })
+
+      expect(JSON.parse(files["out/light.json"]).$metadata).toEqual({
+        light: metadata.light,
+      })
+    })
+
+    it("should place the index above per-theme directories", () => {
+      const files = renderSplitThemes(themes, "out/{name}/theme.css", "css")
+
+      expect(files["out/index.css"]).toBe(
+        '@import "./light/theme.css";\n@import "./dark/theme.css";\n'
+      )
+      expect(files["out/dark/theme.css"]).toContain('[data-theme="dark"]')
+    })
+
+    it("should write lazy imports for TypeScript", () => {
+      const files = renderSplitThemes(themes, "out/{name}.ts", "ts")
+
+      expect(files["out/index.ts"]).toContain(
+        '"dark": () => import("./dark.js"),'
+      )
+    })
+
+    it("should refuse to overwrite a theme named index", () => {
+      expect(() =>
+        renderSplitThemes({ index: themes.light }, "out/{name}.json")
+      ).toThrow("Index file out/index.json would overwrite a theme file")
+    })
+  })
+})